@@ -47,9 +47,11 @@ function make(name, type, tags) {
      * @property {string} name
      * @property {LuaType} type
      * @property {string} doc
+     * @property {boolean} [deprecated]
      */
     /** @type {Info} */
     const info = { name };
+    if (tags?.includes("deprecated")) info.deprecated = true;
     console.log("making doc for " + name);
 
     if (data.startsWith("{{")) {
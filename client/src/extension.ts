@@ -1,9 +1,112 @@
 import { join } from 'path';
-import { commands, ExtensionContext } from 'vscode';
-import { LanguageClient, LanguageClientOptions, ServerOptions, TransportKind } from 'vscode-languageclient/node';
+import { commands, ExtensionContext, StatusBarAlignment, StatusBarItem, TextEditor, window, workspace } from 'vscode';
+import { ExecuteCommandRequest, LanguageClient, LanguageClientOptions, ServerOptions, TransportKind } from 'vscode-languageclient/node';
 
 let client: LanguageClient;
 
+type Budget = { tokens: number, characters: number, compressed: number };
+
+type MinifyResult = {
+	text: string,
+	before: { tokens: number, characters: number },
+	after: { tokens: number, characters: number },
+	notes: string[],
+};
+
+/**
+ * shows the token count of the active PICO-8 document (from the
+ * server's custom request `pico8code/budget`) in the status bar
+ */
+function createBudgetStatus(context: ExtensionContext) {
+	const item = window.createStatusBarItem(StatusBarAlignment.Right);
+	context.subscriptions.push(item);
+
+	let timeout: NodeJS.Timeout | undefined;
+
+	const update = async (editor?: TextEditor) => {
+		if ('pico8' !== editor?.document.languageId) {
+			item.hide();
+			return;
+		}
+
+		let result: { budget: Budget, limits: Budget } | null;
+		try {
+			result = await client.sendRequest('pico8code/budget', { uri: editor.document.uri.toString() });
+		} catch {
+			// (eg. while the server is restarting)
+			result = null;
+		}
+		if (!result) {
+			item.hide();
+			return;
+		}
+
+		const { budget, limits } = result;
+		const percent = (what: keyof Budget) => `${Math.round(100 * budget[what] / limits[what])}%`;
+		item.text = `${budget.tokens}/${limits.tokens} tokens`;
+		item.tooltip = [
+			`tokens: ${budget.tokens}/${limits.tokens} (${percent('tokens')})`,
+			`characters: ${budget.characters}/${limits.characters} (${percent('characters')})`,
+			`compressed (estimated): ${budget.compressed}/${limits.compressed} (${percent('compressed')})`,
+		].join("\n");
+		item.show();
+	};
+
+	// the server needs a moment to parse the changes
+	const schedule = () => {
+		if (timeout) clearTimeout(timeout);
+		timeout = setTimeout(() => update(window.activeTextEditor), 500);
+	};
+
+	context.subscriptions.push(
+		window.onDidChangeActiveTextEditor(update),
+		workspace.onDidChangeTextDocument(event => {
+			if (event.document === window.activeTextEditor?.document) schedule();
+		}),
+	);
+	schedule();
+}
+
+/**
+ * opens a minified copy of the active PICO-8 document (from the
+ * server's command `pico8code.server.minify`) in a new editor
+ */
+async function minify() {
+	const document = window.activeTextEditor?.document;
+	if ('pico8' !== document?.languageId) {
+		window.showWarningMessage("No PICO-8 document to minify");
+		return;
+	}
+
+	const picked = await window.showQuickPick([
+		{ label: "Rename globals", description: "except the callbacks (eg. _update)", option: 'globals' },
+		{ label: "Rename table fields", description: "breaks fields accessed with strings (eg. t[\"x\"])", option: 'fields' },
+	], { canPickMany: true, placeHolder: "Locals are always renamed, also..." });
+	if (!picked) return;
+
+	const options = {
+		globals: picked.some(it => 'globals' === it.option),
+		fields: picked.some(it => 'fields' === it.option),
+	};
+
+	try {
+		const result: MinifyResult | null = await client.sendRequest(ExecuteCommandRequest.type, {
+			command: 'pico8code.server.minify',
+			arguments: [document.uri.toString(), options],
+		});
+		if (!result) return;
+
+		const { before, after, notes } = result;
+		await window.showTextDocument(await workspace.openTextDocument({ language: 'pico8', content: result.text }));
+		window.showInformationMessage([
+			`Minified from ${before.tokens} to ${after.tokens} tokens, ${before.characters} to ${after.characters} characters`,
+			...notes,
+		].join(" - "));
+	} catch (err) {
+		window.showErrorMessage(`Could not minify: ${err instanceof Error ? err.message : err}`);
+	}
+}
+
 export function activate(context: ExtensionContext) {
 	const serverModule = context.asAbsolutePath(join('server', 'out', 'server.js'));
 	const debugOptions = { execArgv: ['--nolazy', '--inspect=6483'] };
@@ -15,10 +118,13 @@ export function activate(context: ExtensionContext) {
 
 	const clientOptions: LanguageClientOptions = {
 		documentSelector: [{ scheme: 'file', language: 'pico8' }],
-		//synchronize: {
-		//	// Notify the server about file changes to '.pico8rc' files contained in the workspace
-		//	fileEvents: workspace.createFileSystemWatcher('**/.pico8rc'),
-		//},
+		synchronize: {
+			// Notify the server about file changes to PICO-8 sources and '.pico8rc' files contained in the workspace
+			fileEvents: [
+				workspace.createFileSystemWatcher('**/*.{p8,lua}'),
+				workspace.createFileSystemWatcher('**/.pico8rc'),
+			],
+		},
 		markdown: { isTrusted: true },
 	};
 
@@ -29,9 +135,13 @@ export function activate(context: ExtensionContext) {
 		clientOptions,
 	);
 
-	context.subscriptions.push(commands.registerCommand('pico8code.server.restart', () => client?.stop().then(() => client?.start())));
+	context.subscriptions.push(
+		commands.registerCommand('pico8code.server.restart', () => client?.stop().then(() => client?.start())),
+		commands.registerCommand('pico8code.minify', minify),
+	);
 	// Start the client. This will also launch the server
 	client.start();
+	client.onReady().then(() => createBudgetStatus(context));
 }
 
 export function deactivate(): Thenable<void> | undefined {
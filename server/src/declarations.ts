@@ -0,0 +1,71 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { LuaType, parse as parseType } from './document/typing';
+
+export type Declaration = {
+	name: string,
+	type: LuaType,
+	// as in 'api/pico8api.txt' (eg. 'functions'), where its wiki doc is found
+	kind: string,
+	// versions of PICO-8 it was added in and removed from
+	since?: string,
+	until?: string,
+	deprecated?: boolean,
+	// what to use instead, if deprecated
+	replacement?: string,
+}
+
+let cache: Declaration[] | undefined;
+
+/**
+ * the typed declarations of the API, from 'api/declarations.txt' (see the
+ * end of the file for its format); the file is only read once
+ *
+ * @throws if the file cannot be read or one of the types cannot be parsed
+ */
+export function loadDeclarations() {
+	if (cache) return cache;
+
+	const declarations: Declaration[] = [];
+	const file = join(__dirname, "..", "..", "api", "declarations.txt");
+
+	let kind = "";
+	readFileSync(file).toString().split("\n").forEach((line, k) => {
+		line = line.trim();
+		if (!line) return;
+
+		if (line.startsWith("#")) {
+			line = line.slice(1).trim();
+			if (line.startsWith("next:")) kind = line.slice(5).trim();
+			return;
+		}
+
+		const hash = line.indexOf("#");
+		const declaration = -1 < hash ? line.slice(0, hash) : line;
+		const mentions = -1 < hash ? line.slice(hash+1).split(",").map(it => it.trim()) : [];
+
+		const colon = declaration.indexOf(":");
+		const name = declaration.slice(0, colon).trim();
+		let type: LuaType;
+		try {
+			type = parseType(declaration.slice(colon+1));
+		} catch (err) {
+			throw new SyntaxError(`in '${file}' line ${k+1}: ${err}`);
+		}
+
+		const it: Declaration = { name, type, kind };
+		mentions.forEach(mention => {
+			const [tag, value] = mention.split(/\s+/, 2);
+			if ('since' === tag) it.since = value;
+			else if ('until' === tag) it.until = value;
+			else if ('deprecated' === tag) {
+				it.deprecated = true;
+				it.replacement = value;
+			}
+		});
+		declarations.push(it);
+	});
+
+	return cache = declarations;
+}
@@ -39,6 +39,8 @@ export namespace aug {
 	export interface FunctionDeclaration extends ast.FunctionDeclaration {
 		augType?: LuaType; // should be LuaFunction
 		augReturns?: ReturnStatement[];
+		augExpected?: LuaFunction; // when given as an argument
+		augAssigned?: ast.Identifier; // when the only value assigned to a variable
 	}
 
 	export interface ForNumericStatement extends ast.ForNumericStatement { }
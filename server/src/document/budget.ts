@@ -0,0 +1,255 @@
+import { ast } from 'pico8parse';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver';
+import { Range } from 'vscode-languageserver-textdocument';
+import { deflateRawSync } from 'zlib';
+
+export type Budget = {
+	tokens: number,
+	characters: number,
+	// only an estimate, PICO-8 uses its own compression
+	compressed: number,
+}
+
+export const LIMITS: Budget = {
+	tokens: 8192,
+	characters: 65535,
+	compressed: 15616,
+};
+
+// from this ratio of a limit, a cart is considered to be approaching it
+const APPROACHING = .9;
+
+/**
+ * count the tokens of a chunk with the rules of PICO-8:
+ * every name, literal, operator and keyword counts as one token, except for
+ * `local`, `end`, `,`, `.`, `:` and `;` which are free; a pair of brackets
+ * counts as one (and so does a negative numeric literal, eg. `-1`)
+ *
+ * the AST does not remember brackets, so these are counted from the text
+ * (`lines` as parsed) where strings and comments were blanked out
+ *
+ * @param isCode whether a line of the text is code (eg. in a `__lua__` section)
+ */
+export function countTokens(chunk: ast.Chunk, text: string, isCode: (line: number) => boolean) {
+	const lines = text.split("\n");
+	let count = 0;
+
+	const blank = (node: ast.Node) => {
+		if (!node.loc) return;
+		const { start, end } = node.loc;
+		for (let line = start.line-1; line <= end.line-1; line++) {
+			const from = line === start.line-1 ? start.column : 0;
+			const to = line === end.line-1 ? end.column : lines[line].length;
+			lines[line] = lines[line].slice(0, from) + " ".repeat(Math.max(0, to - from)) + lines[line].slice(to);
+		}
+	};
+
+	// the word following a node (skipping closing parenthesis), eg. to know
+	// if an `if` is the shorthand form (which has no `then`)
+	const wordAfter = (node: ast.Node) => {
+		if (!node.loc) return;
+		let line = node.loc.end.line-1;
+		let rest = lines[line].slice(node.loc.end.column);
+		while (!/[^\s)]/.test(rest) && ++line < lines.length) rest = lines[line];
+		return /^[\s)]*(\w*)/.exec(rest)?.[1];
+	};
+
+	const walk = (node: ast.Node | null | undefined): void => {
+		if (!node) return;
+		switch (node.type) {
+			case 'Chunk':
+			case 'DoStatement':
+				count+= 'DoStatement' === node.type ? 1 : 0;
+				node.body.forEach(walk);
+				break;
+
+			case 'Identifier':
+			case 'NumericLiteral':
+			case 'BooleanLiteral':
+			case 'NilLiteral':
+			case 'VarargLiteral':
+			case 'BreakStatement':
+				count++;
+				break;
+
+			case 'StringLiteral':
+				count++;
+				blank(node);
+				break;
+
+			case 'LabelStatement':
+			case 'GotoStatement':
+				count+= 'GotoStatement' === node.type ? 1 : 0;
+				walk(node.label);
+				break;
+
+			case 'ReturnStatement':
+				count++;
+				node.arguments.forEach(walk);
+				break;
+
+			case 'IfStatement':
+				node.clauses.forEach(walk);
+				break;
+
+			case 'IfClause':
+			case 'ElseifClause':
+				count+= 'then' === wordAfter(node.condition) ? 2 : 1;
+				walk(node.condition);
+				node.body.forEach(walk);
+				break;
+
+			case 'ElseClause':
+				count++;
+				node.body.forEach(walk);
+				break;
+
+			case 'WhileStatement':
+				count+= 'do' === wordAfter(node.condition) ? 2 : 1;
+				walk(node.condition);
+				node.body.forEach(walk);
+				break;
+
+			case 'RepeatStatement':
+				count+= 2;
+				node.body.forEach(walk);
+				walk(node.condition);
+				break;
+
+			case 'LocalStatement':
+			case 'AssignmentStatement':
+			case 'AssignmentOperatorStatement':
+				count+= node.init.length ? 1 : 0;
+				node.variables.forEach(walk);
+				node.init.forEach(walk);
+				break;
+
+			case 'CallStatement':
+				walk(node.expression);
+				break;
+
+			case 'FunctionDeclaration':
+				count++;
+				walk(node.identifier);
+				node.parameters.forEach(walk);
+				node.body.forEach(walk);
+				break;
+
+			case 'ForNumericStatement':
+				count+= 3; // 'for', '=' and 'do'
+				walk(node.variable);
+				walk(node.start);
+				walk(node.end);
+				walk(node.step);
+				node.body.forEach(walk);
+				break;
+
+			case 'ForGenericStatement':
+				count+= 3; // 'for', 'in' and 'do'
+				node.variables.forEach(walk);
+				node.iterators.forEach(walk);
+				node.body.forEach(walk);
+				break;
+
+			case 'TableConstructorExpression':
+				node.fields.forEach(walk);
+				break;
+
+			case 'TableKey':
+			case 'TableKeyString':
+				count++;
+				walk(node.key);
+				walk(node.value);
+				break;
+
+			case 'TableValue':
+				walk(node.value);
+				break;
+
+			case 'UnaryExpression':
+				if (!('-' === node.operator && 'NumericLiteral' === node.argument.type)) count++;
+				walk(node.argument);
+				break;
+
+			case 'BinaryExpression':
+			case 'LogicalExpression':
+				count++;
+				walk(node.left);
+				walk(node.right);
+				break;
+
+			case 'MemberExpression':
+				walk(node.base);
+				walk(node.identifier);
+				break;
+
+			case 'IndexExpression':
+				walk(node.base);
+				walk(node.index);
+				break;
+
+			case 'CallExpression':
+				walk(node.base);
+				node.arguments.forEach(walk);
+				break;
+
+			case 'TableCallExpression':
+			case 'StringCallExpression':
+				walk(node.base);
+				walk(node.argument);
+				break;
+		}
+	};
+
+	chunk.comments?.forEach(blank);
+	walk(chunk);
+
+	// each pair of brackets (ie. each opening one)
+	lines.forEach((line, k) => {
+		if (isCode(k)) count+= line.match(/[([{]/g)?.length ?? 0;
+	});
+
+	return count;
+}
+
+/**
+ * @param code the whole code (eg. with the included files)
+ * @param tokens as counted with `countTokens`
+ */
+export function measure(code: string, tokens: number): Budget {
+	return {
+		tokens,
+		characters: code.length,
+		compressed: deflateRawSync(code, { level: 9 }).length,
+	};
+}
+
+/**
+ * diagnostics for the limits of the `budget` that are approached or exceeded
+ */
+export function diagnoseBudget(budget: Budget, range: Range) {
+	const diagnostics: Diagnostic[] = [];
+	const check = (what: keyof Budget, unit: string) => {
+		const value = budget[what];
+		const limit = LIMITS[what];
+		const estimated = 'compressed' === what ? " (estimated)" : "";
+
+		if (limit < value) diagnostics.push({
+			message: `${value} ${unit}${estimated}, exceeds the limit of ${limit}`,
+			range,
+			severity: DiagnosticSeverity.Error,
+			code: 'budget',
+		});
+		else if (limit * APPROACHING <= value) diagnostics.push({
+			message: `${value} ${unit}${estimated}, approaching the limit of ${limit}`,
+			range,
+			severity: DiagnosticSeverity.Warning,
+			code: 'budget',
+		});
+	};
+
+	check('tokens', "tokens");
+	check('characters', "characters");
+	check('compressed', "bytes of compressed code");
+	return diagnostics;
+}
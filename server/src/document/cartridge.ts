@@ -0,0 +1,223 @@
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver';
+import { Range } from 'vscode-languageserver-textdocument';
+
+export type SectionName
+	= 'lua'
+	| 'gfx'
+	| 'gff'
+	| 'label'
+	| 'map'
+	| 'sfx'
+	| 'music'
+	| `meta:${string}`
+
+export type Section = {
+	name: SectionName,
+	// line of the `__name__` header
+	header: number,
+	// lines of the content (`last < first` when empty)
+	first: number,
+	last: number,
+}
+
+export type SfxNote = {
+	pitch: number,
+	// over 7, is a custom instrument (ie. the sfx 0 to 7)
+	waveform: number,
+	volume: number,
+	effect: number,
+}
+
+export type Sfx = {
+	editorMode: number,
+	speed: number,
+	loopStart: number,
+	loopEnd: number,
+	notes: SfxNote[],
+}
+
+export type Pattern = {
+	// bits 0 to 2 are begin loop, end loop and stop
+	flags: number,
+	// over 63, the channel is disabled
+	channels: [number, number, number, number],
+}
+
+/**
+ * how the rows of a data section are expected to look like
+ */
+const FORMATS: Record<Exclude<SectionName, 'lua' | `meta:${string}`>, { rows: number, width: number, invalid: RegExp }> = {
+	gfx: { rows: 128, width: 128, invalid: /[^0-9a-f]/i },
+	gff: { rows: 2, width: 256, invalid: /[^0-9a-f]/i },
+	label: { rows: 128, width: 128, invalid: /[^0-9a-v]/i },
+	map: { rows: 32, width: 256, invalid: /[^0-9a-f]/i },
+	sfx: { rows: 64, width: 168, invalid: /[^0-9a-f]/i },
+	music: { rows: 64, width: 11, invalid: /[^0-9a-f ]/i },
+};
+
+function isSectionName(name: string): name is SectionName {
+	return 'lua' === name || name in FORMATS || name.startsWith("meta:");
+}
+
+function hex(row: string, at: number, length: number) {
+	return parseInt(row.substr(at, length), 16) || 0;
+}
+
+/**
+ * model of a `.p8` file, split into its sections with the content of
+ * the data sections decoded (missing or invalid data is left at 0)
+ *
+ * ```plaintext
+ * pico-8 cartridge // http://www.pico-8.com
+ * version 29
+ * __lua__
+ * -- code...
+ * __gfx__
+ * 0000...
+ * ```
+ *
+ * format problems (eg. unknown section, too many rows, wrong widths...)
+ * are reported as `diagnostics`
+ */
+export class Cartridge {
+
+	sections: Section[] = [];
+	diagnostics: Diagnostic[] = [];
+
+	// color of each pixel of the sprite sheet, row by row
+	gfx = new Uint8Array(128 * 128);
+	// flags of each sprite
+	gff = new Uint8Array(256);
+	// color of each pixel of the label (can use the secret palette, ie. 16 to 31)
+	label = new Uint8Array(128 * 128);
+	// sprite of each tile of the upper half of the map, row by row
+	// (the lower half is shared with the lower half of the sprite sheet)
+	map = new Uint8Array(128 * 32);
+	sfx: Sfx[] = [];
+	music: Pattern[] = [];
+	meta: { [name: string]: string } = {};
+
+	constructor(text: string) {
+		const lines = text.split("\n").map(it => it.replace(/\r$/, ""));
+
+		let current: Section | undefined;
+		lines.forEach((line, k) => {
+			const header = /^__([\w:]+)__\s*$/.exec(line);
+			if (!header) {
+				if (current) current.last = k;
+				return;
+			}
+
+			const name = header[1];
+			if (!isSectionName(name)) {
+				this.report(`unknown section '__${name}__'`, this.lineRange(lines, k), DiagnosticSeverity.Warning);
+				current = undefined;
+				return;
+			}
+			if (this.sections.some(it => name === it.name))
+				this.report(`duplicate section '__${name}__'`, this.lineRange(lines, k), DiagnosticSeverity.Warning);
+
+			current = { name, header: k, first: k+1, last: k };
+			this.sections.push(current);
+		});
+
+		this.sections.forEach(it => this.decode(it, lines));
+	}
+
+	/**
+	 * @returns the section the line is in, if any (not the header)
+	 */
+	sectionAt(line: number) {
+		return this.sections.find(it => it.first <= line && line <= it.last);
+	}
+
+	private decode(section: Section, lines: string[]) {
+		const { name } = section;
+		if ('lua' === name) return;
+
+		const content = lines.slice(section.first, section.last+1);
+		if (name.startsWith("meta:")) {
+			this.meta[name.slice(5)] = content.join("\n");
+			return;
+		}
+
+		const format = FORMATS[name as keyof typeof FORMATS];
+		let count = 0;
+		content.forEach((raw, k) => {
+			const row = raw.trimEnd();
+			if (!row) return; // blank lines (eg. at the end of the file) are not rows
+			const line = section.first + k;
+
+			if (format.rows === count++)
+				this.report(`'__${name}__' should not have more than ${format.rows} rows`, this.lineRange(lines, line), DiagnosticSeverity.Warning);
+			if (format.rows < count) return;
+
+			const at = row.search(format.invalid);
+			if (-1 < at) {
+				this.report(`invalid character '${row.charAt(at)}'`, { start: { line, character: at }, end: { line, character: at+1 } }, DiagnosticSeverity.Error);
+				return;
+			}
+			if ('music' === name && !/^[0-9a-f]{2} [0-9a-f]{8}$/i.test(row)) {
+				this.report("expected a pattern as 'ff 00000000' (flags, then the 4 channels)", this.lineRange(lines, line), DiagnosticSeverity.Error);
+				return;
+			}
+			if (format.width !== row.length)
+				this.report(`row should be ${format.width} characters long (found ${row.length})`, this.lineRange(lines, line), DiagnosticSeverity.Warning);
+
+			this.decodeRow(name as keyof typeof FORMATS, count-1, row);
+		});
+	}
+
+	private decodeRow(name: keyof typeof FORMATS, index: number, row: string) {
+		switch (name) {
+			case 'gfx':
+			case 'label':
+				for (let k = 0; k < 128 && k < row.length; k++)
+					this[name][index*128 + k] = parseInt(row.charAt(k), 32);
+				break;
+
+			case 'gff':
+			case 'map':
+				for (let k = 0; k < 128 && 2*k < row.length; k++)
+					this[name][index*128 + k] = hex(row, 2*k, 2);
+				break;
+
+			case 'sfx': {
+				const notes: SfxNote[] = [];
+				for (let k = 8; k+5 <= row.length; k+= 5) notes.push({
+					pitch: hex(row, k, 2),
+					waveform: hex(row, k+2, 1),
+					volume: hex(row, k+3, 1),
+					effect: hex(row, k+4, 1),
+				});
+				this.sfx[index] = {
+					editorMode: hex(row, 0, 2),
+					speed: hex(row, 2, 2),
+					loopStart: hex(row, 4, 2),
+					loopEnd: hex(row, 6, 2),
+					notes,
+				};
+				break;
+			}
+
+			case 'music':
+				this.music[index] = {
+					flags: hex(row, 0, 2),
+					channels: [hex(row, 3, 2), hex(row, 5, 2), hex(row, 7, 2), hex(row, 9, 2)],
+				};
+				break;
+		}
+	}
+
+	private lineRange(lines: string[], line: number): Range {
+		return {
+			start: { line, character: 0 },
+			end: { line, character: lines[line].length },
+		};
+	}
+
+	private report(message: string, range: Range, severity: DiagnosticSeverity) {
+		this.diagnostics.push({ message, range, severity, code: 'cartridge' });
+	}
+
+}
@@ -1,10 +1,10 @@
 import { ast } from 'pico8parse';
-import { Diagnostic, DiagnosticSeverity, DocumentSymbol, SymbolKind, SymbolTag } from 'vscode-languageserver';
+import { Diagnostic, DiagnosticSeverity, DiagnosticTag, DocumentSymbol, SymbolKind, SymbolTag, TextEdit } from 'vscode-languageserver';
 import { Range } from 'vscode-languageserver-textdocument';
 
 import { aug } from './augmented';
-import { LuaType, LuaScope, LuaDoc, parse, isLuaFunction, represent, isLuaTypedKey, LuaTable, isLuaTable, LuaFunction, equivalent } from './typing';
-import { buildBinaryTree, locToRange, resolveListOfTypes } from '../util';
+import { LuaType, LuaScope, LuaDoc, parse, isLuaFunction, represent, isLuaTypedKey, LuaTable, isLuaTable, LuaFunction, LuaVariable, alias, intersectedTable, isAssignable, isLuaTypeKind, LuaTypeKind, narrow, fieldOwner, isUnknown, instantiate, equivalent, simplify } from './typing';
+import { buildBinaryTree, flattenBinaryTree, locToRange, rangeContains, rangeEquals, resolveListOfTypes, typeAfterList } from '../util';
 
 /** @thanks https://stackoverflow.com/a/64469734/13196480 */
 type FindByTType<Union, TType> = Union extends { type: TType } ? Union : never;
@@ -12,12 +12,32 @@ type FindByTType<Union, TType> = Union extends { type: TType } ? Union : never;
 type TTypes = ast.Node['type'];
 type NodeHandlers = { [TType in TTypes]: (node: FindByTType<ast.Node, TType>) => void }
 
+// how many times a function which refers to itself may be explored to find its return
+const MAX_PASSES = 5;
+
+/**
+ * removes what the exploration added to the nodes (eg. `augType`),
+ * so that they can be explored again
+ */
+function forget(node: unknown) {
+	if (!node || 'object' !== typeof node) return;
+	if (Array.isArray(node)) return node.forEach(forget);
+
+	Object.keys(node).forEach(key => {
+		if (key.startsWith('aug')) delete (node as Record<string, unknown>)[key];
+		else if ('loc' !== key) forget((node as Record<string, unknown>)[key]);
+	});
+}
+
 export type LUTVariables = { [startPos: string]: {
 	range: Range,
 	name: string,
 	type: LuaType,
 	doc?: LuaDoc,
 	scope: LuaScope,
+	variable?: LuaVariable, // only for identifiers
+	field?: boolean, // only for the key of a table field
+	table?: LuaTable, // same, when the table is known
 } }
 
 export type LUTScopes = {
@@ -39,6 +59,29 @@ export type LUTTables = { [endPos: string]: {
 	scope: LuaScope,
 } }
 
+export type LUTFields = Map<LuaTable, { [key: string]: {
+	// every range the key appeared at, last in first
+	ranges: Range[],
+	// whether the corresponding range assigns to it
+	writes: boolean[],
+} | undefined }>
+
+// a quick fix for a diagnostic (as its `data`), see `Document{} > handleOnCodeAction()`
+export type DiagnosticFix = {
+	title: string,
+	// changes to the text of the document
+	edits?: TextEdit[],
+	// or renames the variable at `range` (every occurrences)
+	rename?: { range: Range, newName: string },
+}
+
+export type LUTCalls = { [startPos: string]: {
+	// name of the function called (only for identifiers)
+	name: string,
+	// value of each argument if a constant number
+	args: (number | undefined)[],
+} }
+
 export class SelfExplore {
 
 	protected ast: ast.Chunk = { type: 'Chunk', body: [] };
@@ -48,8 +91,10 @@ export class SelfExplore {
 		this.ast = { type: 'Chunk', body: [] };
 
 		this.docLineMap = {};
+		this.aliases = {};
 
 		this.diagnostics = [];
+		this.suppressions = [];
 
 		this.symbols = [];
 		this.currentSymbol = undefined;
@@ -62,13 +107,17 @@ export class SelfExplore {
 
 		this.lutFunctions = {};
 		this.lutTables = {};
+		this.lutFields = new Map();
+		this.lutCalls = {};
 
 		this.contextStack = [];
+		this.narrowings = [];
+		this.recursions = new Map();
+		this.blockGlobals = [];
 	}
 
 	protected explore() {
 		if (this.ast) {
-			this.docGather();
 			this.handlers.Chunk(this.ast);
 		}// else throw new Error("How did we get here?\n" + `explore, ast: ${this.ast}`);
 	}
@@ -80,12 +129,26 @@ export class SelfExplore {
 		value: LuaDoc,
 	} | undefined } = {};
 
+	// declared with a `type Name = ...` doc comment (or in an included file)
+	protected aliases: { [name: string]: {
+		type: LuaType,
+		range: Range,
+		uri?: string, // only if from an included file
+	} | undefined } = {};
+
+	/**
+	 * to find the type named by an alias when parsing a type
+	 */
+	protected aliasLookup = (name: string) => Object.prototype.hasOwnProperty.call(this.aliases, name)
+		? this.aliases[name]?.type
+		: undefined;
+
 	private docProcess(raw: string): LuaDoc {
 		const lines = raw.split(/\r?\n/g);
 
 		let type: LuaType | undefined;
 		try {
-			type = parse(lines[0]);
+			type = parse(lines[0], this.aliasLookup);
 			lines.shift();
 		} catch { type = undefined; }
 
@@ -96,7 +159,9 @@ export class SelfExplore {
 	}
 
 	/**
-	 * gather every long-string comments and map them by _ending_ line number
+	 * gather every long-string comments and map them by _ending_ line number,
+	 * except for the alias declarations (`type Name = ...`, the type may
+	 * span several lines) which are processed first
 	 * 
 	 * note: line is the `Position['line']`
 	 * 
@@ -105,17 +170,61 @@ export class SelfExplore {
 	 * it is simpler to have a requirement that doc comment be attached to the
 	 * associated object with no line in between and not on the same line
 	 */
-	private docGather() {
+	protected docGather() {
+		const docs: ast.Comment[] = [];
+		const declarations: { name: string, repr: string, range: Range }[] = [];
+
 		this.ast.comments?.forEach(it => {
 			if (it.raw.startsWith("--[[") && it.raw.endsWith("]]")) {
-				const range = locToRange(it.loc);
-				this.docLineMap[range.end.line] = {
-					range,
-					raw: it.rawInterrupted ?? it.raw,
-					value: this.docProcess(it.value),
-				};
+				const declaration = /^\s*type\s+([A-Za-z_]\w*)\s*=([^]*)$/.exec(it.value);
+				if (declaration) declarations.push({ name: declaration[1], repr: declaration[2].replace(/\s+/g, " "), range: locToRange(it.loc) });
+				else docs.push(it);
+			}
+		});
+		this.aliasDeclare(declarations);
+
+		docs.forEach(it => {
+			const range = locToRange(it.loc);
+			this.docLineMap[range.end.line] = {
+				range,
+				raw: it.rawInterrupted ?? it.raw,
+				value: this.docProcess(it.value),
+			};
+		});
+	}
+
+	/**
+	 * an alias may refer to others declared after it, so the declarations
+	 * are tried again for as long as some more could be parsed
+	 */
+	private aliasDeclare(declarations: { name: string, repr: string, range: Range }[]) {
+		const errors: Record<string, string> = {};
+		const seen = new Set<string>();
+		let pending = declarations.filter(it => {
+			if (!this.aliases[it.name] && !seen.has(it.name)) {
+				seen.add(it.name);
+				return true;
 			}
+			this.warning(`duplicate type alias '${it.name}'`, it.range, 'type-alias');
+			return false;
 		});
+
+		while (pending.length) {
+			const failed = pending.filter(it => {
+				try {
+					const type = alias(it.name, parse(it.repr, this.aliasLookup));
+					this.aliases[it.name] = { type, range: it.range };
+					return false;
+				} catch (err) {
+					errors[it.name] = err instanceof Error ? err.message : `${err}`;
+					return true;
+				}
+			});
+			if (failed.length === pending.length) break;
+			pending = failed;
+		}
+
+		pending.forEach(it => this.warning(`could not declare type alias '${it.name}': ${errors[it.name]}`, it.range, 'type-alias'));
 	}
 
 	/**
@@ -129,38 +238,158 @@ export class SelfExplore {
 	}
 //#endregion
 
+//#region suppressions
+	// lines are the `Position['line']`, `codes` undefined for every diagnostic
+	private suppressions: {
+		range: Range,
+		codes?: string[],
+		first: number,
+		last: number,
+		// the codes of the diagnostics it suppressed
+		used: Set<string>,
+	}[] = [];
+
+	/**
+	 * gather the comments which suppress diagnostics, by `code` (or all of them if none is given):
+	 *  - `-- pico8code-disable-next-line code...` for the line after the comment
+	 *  - `-- pico8code-disable code...` until a `-- pico8code-enable` (with the
+	 *    same codes, or none) or the end of the file
+	 * 
+	 * anything after a `--` within the comment is ignored (eg. to say why)
+	 */
+	protected suppressionGather() {
+		const open: SelfExplore['suppressions'] = [];
+
+		this.ast.comments?.forEach(it => {
+			const [directive, ...words] = it.value.replace(/\s--.*$/, "").trim().split(/[\s,]+/);
+			const range = locToRange(it.loc);
+			const codes = words.length ? words : undefined;
+
+			if ("pico8code-disable-next-line" === directive)
+				this.suppressions.push({ range, codes, first: range.end.line+1, last: range.end.line+1, used: new Set() });
+
+			else if ("pico8code-disable" === directive) {
+				const suppression = { range, codes, first: range.start.line, last: Infinity, used: new Set<string>() };
+				this.suppressions.push(suppression);
+				open.push(suppression);
+			}
+
+			else if ("pico8code-enable" === directive) {
+				for (let k = open.length-1; -1 < k; k--) {
+					if (codes && !open[k].codes?.every(code => codes.includes(code))) continue;
+					open[k].last = range.start.line;
+					open.splice(k, 1);
+				}
+			}
+		});
+	}
+
+	/**
+	 * @returns the diagnostics which are not suppressed (see `suppressionGather()`),
+	 * and a hint for each suppression which was not needed
+	 */
+	protected suppress(diagnostics: Diagnostic[]) {
+		const kept = diagnostics.filter(diagnostic => {
+			const line = diagnostic.range.start.line;
+			const code = `${diagnostic.code}`;
+			const by = this.suppressions.filter(it => it.first <= line && line <= it.last && (!it.codes || it.codes.includes(code)));
+			by.forEach(it => it.used.add(code));
+			return !by.length;
+		});
+
+		this.suppressions.forEach(it => {
+			const unused = it.codes?.filter(code => !it.used.has(code));
+			if (unused ? !unused.length : it.used.size) return;
+			kept.push({
+				message: unused && it.used.size
+					? `nothing to suppress for ${unused.map(code => `'${code}'`).join(", ")}`
+					: "nothing to suppress",
+				range: it.range,
+				severity: DiagnosticSeverity.Hint,
+				code: 'unused-suppression',
+				tags: [DiagnosticTag.Unnecessary],
+			});
+		});
+
+		return kept;
+	}
+//#endregion
+
 //#region diagnostics
+	// (the `code` of a diagnostic is the name of its rule, see `Settings{} > parse.rules`)
 	protected diagnostics: Diagnostic[] = [];
 
-	hint(message: string, range: Range) {
+	hint(message: string, range: Range, code: string, fix?: DiagnosticFix) {
 		this.diagnostics.push({
 			message,
 			range,
 			severity: DiagnosticSeverity.Hint,
+			code,
+			data: fix,
 		});
 	}
 
-	information(message: string, range: Range) {
+	information(message: string, range: Range, code: string, fix?: DiagnosticFix) {
 		this.diagnostics.push({
 			message,
 			range,
 			severity: DiagnosticSeverity.Information,
+			code,
+			data: fix,
 		});
 	}
 
-	warning(message: string, range: Range) {
+	warning(message: string, range: Range, code: string, fix?: DiagnosticFix) {
 		this.diagnostics.push({
 			message,
 			range,
 			severity: DiagnosticSeverity.Warning,
+			code,
+			data: fix,
 		});
 	}
 
-	error(message: string, range: Range) {
+	error(message: string, range: Range, code: string, fix?: DiagnosticFix) {
 		this.diagnostics.push({
 			message,
 			range,
 			severity: DiagnosticSeverity.Error,
+			code,
+			data: fix,
+		});
+	}
+
+	/**
+	 * warns about the parameters left without argument which do not accept `nil`
+	 * (none if the last argument may give several values, eg. a call)
+	 */
+	private argumentsMissing(type: LuaFunction, args: ast.Expression[], range: Range) {
+		const last = args[args.length-1];
+		if (last && ['CallExpression', 'TableCallExpression', 'StringCallExpression', 'VarargLiteral'].includes(last.type)) return;
+
+		const missing = type.parameters
+			.slice(args.length)
+			.filter(it => !isAssignable('nil', it.type));
+		if (missing.length)
+			this.warning(`missing argument${1 < missing.length ? "s" : ""} ${missing.map(it => `'${it.name}: ${represent(it.type)}'`).join(", ")}`, range, 'missing-argument');
+	}
+
+	// the globals declared by an assignment within a function, with the block it is in
+	private blockGlobals: { name: string, variable: LuaVariable, statement: Range, block: Range }[] = [];
+
+	/**
+	 * hints at the globals declared within a function (see `blockGlobals`)
+	 * which are only used after that in the same block, so could be local
+	 */
+	private diagnoseBlockGlobals() {
+		this.blockGlobals.forEach(({ name, variable, statement, block }) => {
+			const declaration = variable.ranges[variable.ranges.length-1];
+			const after = { start: statement.end, end: block.end };
+			if (!variable.ranges.every(it => rangeEquals(it, declaration) || rangeContains(after, it.start))) return;
+			this.hint(`${name} is global, but only used within this block`, declaration, 'could-be-local', {
+				title: `Declare '${name}' as local`,
+				edits: [{ range: { start: statement.start, end: statement.start }, newText: "local " }],
+			});
 		});
 	}
 //#endregion
@@ -239,6 +468,7 @@ export class SelfExplore {
 				types: [type],
 				ranges: [range],
 				scopes: [theScope],
+				writes: [true],
 			};
 		}// else throw new Error("How did we get here?\n" + `declare, name: ${name}, type: ${represent(type)}`);
 	}
@@ -246,6 +476,8 @@ export class SelfExplore {
 	/**
 	 * only update, should already be declared!
 	 * 
+	 * the variable is no longer narrowed (see `narrowingsOf`)
+	 * 
 	 * @param scope scope to affect, defaults to current
 	 */
 	private variableUpdate(name: string, range: Range, type: LuaType, scope?: LuaScope) {
@@ -254,11 +486,13 @@ export class SelfExplore {
 			variable.types.unshift(type);
 			variable.ranges.unshift(range);
 			variable.scopes.unshift(scope ?? this.currentScope);
+			variable.writes.unshift(true);
+			this.narrowings.forEach(it => it.delete(variable));
 		}// else throw new Error("How did we get here?\n" + `update, name: ${name}, type: ${represent(type)}`);
 	}
 
 	/**
-	 * somewhat similar to updating, with its last type and scope it had
+	 * somewhat similar to updating, with its current type and last scope it had
 	 */
 	private variableReference(name: string, range: Range) {
 		const variable = this.currentScope.variables[name];
@@ -267,12 +501,26 @@ export class SelfExplore {
 			if (at.line === range.start.line && at.character === range.start.character)
 				return; // was already referenced through a "declare" or "update"
 
-			variable.types.unshift(variable.types[0]);
+			variable.types.unshift(this.variableType(variable));
 			variable.ranges.unshift(range);
 			variable.scopes.unshift(variable.scopes[0]);
+			variable.writes.unshift(false);
 		}// else throw new Error("How did we get here?\n" + `reference, name: ${name}, range: ${range.start.line}:${range.start.character}-${range.end.line}:${range.end.character}`);
 	}
 
+	/**
+	 * the type of a variable at this point: as narrowed by the conditions of the
+	 * branches it is in, or else as last assigned
+	 */
+	private variableType(variable: LuaVariable) {
+		for (let k = this.narrowings.length-1; -1 < k; k--) {
+			const narrowed = this.narrowings[k].get(variable);
+			if (narrowed) return narrowed;
+		}
+		const write = variable.writes.indexOf(true);
+		return variable.types[-1 < write ? write : 0];
+	}
+
 	/**
 	 * lookup a visible `name` from the current scope (and its parents)
 	 */
@@ -280,15 +528,160 @@ export class SelfExplore {
 		return this.currentScope.variables[name];
 	}
 
+	/**
+	 * the type of a (dotted) name, without exploring it (ie. it is not
+	 * referenced), eg. the `Class` of `function Class:method()`
+	 */
+	private variableTypeOf(expression: ast.Expression): LuaType | undefined {
+		if ('Identifier' === expression.type) {
+			const variable = this.variableLookup(expression.name);
+			return variable && this.variableType(variable);
+		}
+		if ('MemberExpression' === expression.type) {
+			const base = this.variableTypeOf(expression.base);
+			const table = base && intersectedTable(base, expression.identifier.name);
+			return table && fieldOwner(table, expression.identifier.name)?.entries[expression.identifier.name];
+		}
+	}
+
 	private variableLocate(name: string, range: Range, shouldNotDoc?: boolean) {
 		const variable = this.variableLookup(name);
 		const doc = variable?.doc ?? (shouldNotDoc ? undefined : this.docMatching(range));
 		this.lutVariables[`:${range.start.line}:${range.start.character}`] = {
 			range,
 			name,
-			type: variable ? variable.types[0] : 'nil', // XXX: for now '0' ie. 'latest'
+			type: variable ? variable.types[0] : 'unknown', // XXX: for now '0' ie. 'latest'
 			doc,
 			scope: variable?.scopes[0] ?? this.currentScope,
+			variable,
+		};
+	}
+//#endregion
+
+//#region narrowing
+	// what is known of some variables within the current branches, innermost last
+	private narrowings: Map<LuaVariable, LuaType>[] = [];
+
+	/**
+	 * what is known of the variables of a condition when it holds (or not), from:
+	 *  - truthiness checks, eg. `if p then` (`p` is not `nil`)
+	 *  - comparisons with `nil`, eg. `p ~= nil`
+	 *  - comparisons of what the API's `type()` returns, eg. `type(p) == "table"`
+	 *  - `not`, `and` and `or` of these
+	 */
+	private narrowingsOf(condition: ast.Expression, holds: boolean): Map<LuaVariable, LuaType> {
+		const r = new Map<LuaVariable, LuaType>();
+		const narrowing = (node: ast.Expression, kinds: LuaTypeKind[], is: boolean) => {
+			if ('Identifier' !== node.type) return;
+			const variable = this.variableLookup(node.name);
+			if (variable) r.set(variable, narrow(this.variableType(variable), kinds, is));
+		};
+
+		switch (condition.type) {
+			case 'Identifier':
+				// otherwise it is either `nil` or `false`
+				if (holds) narrowing(condition, ['nil'], false);
+				else narrowing(condition, ['nil', 'boolean'], true);
+				break;
+
+			case 'UnaryExpression':
+				if ('not' === condition.operator)
+					return this.narrowingsOf(condition.argument, !holds);
+				break;
+
+			case 'LogicalExpression':
+				// both sides are only known when `a and b` holds or `a or b` does not
+				if (holds === ('and' === condition.operator)) {
+					const left = this.narrowingsOf(condition.left, holds);
+					this.narrowings.push(left);
+						const right = this.narrowingsOf(condition.right, holds);
+					this.narrowings.pop();
+					[left, right].forEach(it => it.forEach((type, variable) => r.set(variable, type)));
+				}
+				break;
+
+			case 'BinaryExpression': {
+				const equal = '==' === condition.operator;
+				if (!equal && '~=' !== condition.operator && '!=' !== condition.operator) break;
+				const is = equal === holds;
+
+				const { left, right } = condition;
+				if ('NilLiteral' === right.type) narrowing(left, ['nil'], is);
+				else if ('NilLiteral' === left.type) narrowing(right, ['nil'], is);
+				else {
+					const [call, literal] = 'StringLiteral' === right.type ? [left, right] : [right, left];
+					if ('CallExpression' === call.type && 'Identifier' === call.base.type && 1 === call.arguments.length
+					&& 'api' === this.variableLookup(call.base.name)?.predefined && 'type' === call.base.name
+					&& 'StringLiteral' === literal.type && isLuaTypeKind(literal.value))
+						narrowing(call.arguments[0], [literal.value], is);
+				}
+				break;
+			}
+		}
+
+		return r;
+	}
+//#endregion
+
+//#region passes
+	// the functions (without doc comment) being explored, and whether they refer to themselves
+	private recursions = new Map<LuaFunction, boolean>();
+
+	/**
+	 * records what exploring a function's body may change, and returns what
+	 * restores it (to explore it again as if it was not yet)
+	 */
+	private checkpoint() {
+		const diagnostics = this.diagnostics.length;
+		const symbols = this.currentSymbol?.children?.length ?? 0;
+		const lutScopes = this.lutScopes.length;
+		const narrowings = this.narrowings.map(it => new Map(it));
+		const blockGlobals = this.blockGlobals.length;
+
+		// the variables visible, in every scope up to the global one
+		const declared = new Map<LuaScope['variables'], string[]>();
+		const lengths = new Map<LuaVariable, number>();
+		for (let variables = this.currentScope.variables; Object.prototype !== variables; variables = Object.getPrototypeOf(variables)) {
+			declared.set(variables, Object.keys(variables));
+			Object.values(variables).forEach(it => it && lengths.set(it, it.types.length));
+		}
+
+		const fields = new Map([...this.lutFields].map(([table, keys]) => [table, Object.fromEntries(Object
+			.entries(keys)
+			.map(([key, field]) => [key, field?.ranges.length ?? 0])
+		)]));
+
+		return () => {
+			this.diagnostics.length = diagnostics;
+			if (this.currentSymbol?.children) this.currentSymbol.children.length = symbols;
+			this.lutScopes.length = lutScopes;
+			this.blockGlobals.length = blockGlobals;
+			this.narrowings.forEach((it, k) => {
+				it.clear();
+				narrowings[k]?.forEach((type, variable) => it.set(variable, type));
+			});
+
+			declared.forEach((names, variables) => Object.keys(variables)
+				.filter(it => !names.includes(it))
+				.forEach(it => delete variables[it]));
+			lengths.forEach((length, variable) => {
+				const added = variable.types.length - length;
+				variable.types.splice(0, added);
+				variable.ranges.splice(0, added);
+				variable.scopes.splice(0, added);
+				variable.writes.splice(0, added);
+			});
+
+			this.lutFields.forEach((keys, table) => {
+				const before = fields.get(table);
+				if (!before) return void this.lutFields.delete(table);
+				Object.entries(keys).forEach(([key, field]) => {
+					if (!Object.prototype.hasOwnProperty.call(before, key)) return void delete keys[key];
+					const added = (field?.ranges.length ?? 0) - before[key];
+					field?.ranges.splice(0, added);
+					field?.writes.splice(0, added);
+				});
+			});
 		};
 	}
 //#endregion
@@ -296,6 +689,8 @@ export class SelfExplore {
 //#region other expressions
 	protected lutFunctions: LUTFunctions = {};
 	protected lutTables: LUTTables = {};
+	protected lutFields: LUTFields = new Map();
+	protected lutCalls: LUTCalls = {};
 
 	private functionLocate(type: LuaFunction, range: Range) {
 		const doc = this.docMatching(range);
@@ -316,6 +711,55 @@ export class SelfExplore {
 			scope: this.currentScope,
 		};
 	}
+
+	/**
+	 * the function type as seen from a call: with its type parameters inferred
+	 * from the arguments and, for a method call (`obj:method()`), without its
+	 * first parameter `self`, which is checked against `obj` instead
+	 */
+	private callSignature(type: LuaFunction, base: ast.Expression, args: ast.Expression[]): LuaFunction {
+		if (this.recursions.has(type)) this.recursions.set(type, true);
+
+		const argTypes = args.map(it => (it as aug.Expression).augType ?? 'unknown');
+		if ('MemberExpression' !== base.type || ':' !== base.indexer) return instantiate(type, argTypes);
+
+		const objType = (base.base as aug.Expression).augType;
+		const signature = instantiate(type, [objType ?? 'unknown', ...argTypes]);
+		const [self, ...parameters] = signature.parameters;
+		if (self && objType && !isAssignable(objType, self.type))
+			this.warning(`expected ${represent(self.type)} for 'self', got ${represent(objType)}`, locToRange(base.base.loc), 'argument-type');
+		return { ...signature, parameters };
+	}
+
+	/**
+	 * records a call to a function by its name, keeping
+	 * the arguments which are constant numbers
+	 */
+	private callLocate(name: string, range: Range, args: ast.Expression[]) {
+		this.lutCalls[`:${range.start.line}:${range.start.character}`] = {
+			name,
+			args: args.map(it => 'NumericLiteral' === it.type ? it.value : undefined),
+		};
+	}
+
+	/**
+	 * records an occurrence of the key `name` of the `table`
+	 * and marks the corresponding variable LUT entry as a field
+	 * 
+	 * @param write whether the key is being assigned to
+	 */
+	private fieldLocate(table: LuaTable, name: string, range: Range, write: boolean) {
+		let fields = this.lutFields.get(table);
+		if (!fields) this.lutFields.set(table, fields = {});
+
+		let field = Object.prototype.hasOwnProperty.call(fields, name) ? fields[name] : undefined;
+		if (!field) field = fields[name] = { ranges: [], writes: [] };
+		field.ranges.unshift(range);
+		field.writes.unshift(write);
+
+		const it = this.lutVariables[`:${range.start.line}:${range.start.character}`];
+		if (it) it.table = table;
+	}
 //#endregion
 
 //#region context
@@ -349,8 +793,13 @@ export class SelfExplore {
 					this.currentScope = this.globalScope;
 					this.lutScopes.push({ range: locToRange(node.loc), scope: this.currentScope });
 
-					node.body.forEach(it => this.handlers[it.type](it as any));
+					// locals of the main chunk are not globals
+					const previousScope = this.scopeFork(locToRange(node.loc), "local");
+						node.body.forEach(it => this.handlers[it.type](it as any));
+					this.scopeRestore(previousScope);
 				this.contextPop('Chunk');
+
+				this.diagnoseBlockGlobals();
 			},
 
 			Comment: (node) => { void 0; },
@@ -358,8 +807,11 @@ export class SelfExplore {
 			Identifier: (node) => {
 				const augmented = node as aug.Identifier;
 				if (!augmented.augType) {
-					augmented.augType = this.variableLookup(node.name)?.types[0];
+					const variable = this.variableLookup(node.name);
+					augmented.augType = variable && this.variableType(variable);
 					this.variableReference(node.name, locToRange(node.loc));
+					if (augmented.augType && this.recursions.has(augmented.augType as LuaFunction))
+						this.recursions.set(augmented.augType as LuaFunction, true);
 				}
 
 				const shouldNotDoc = !!(node as any).doNotTryToFindDocPlease;
@@ -370,85 +822,161 @@ export class SelfExplore {
 				const range = locToRange(node.loc);
 				const identRange = node.identifier && locToRange(node.identifier.loc);
 
+				// `function Class:method()` has an implicit first parameter `self`
+				const isMethod = 'MemberExpression' === node.identifier?.type && ':' === node.identifier.indexer;
+				const selfType = isMethod && this.variableTypeOf((node.identifier as ast.MemberExpression).base) || 'unknown';
+				const offset = isMethod ? 1 : 0;
+
+				// (the doc comment of a method may omit `self`)
 				const doc = this.docMatching(range);
-				const overrideType = !!doc && isLuaFunction(doc.type) && doc.type;
+				const docType = !!doc && isLuaFunction(doc.type) && doc.type;
+				const overrideType = docType && isMethod && 'self' !== docType.parameters[0]?.name
+					? { ...docType, parameters: [{ name: 'self', type: selfType }, ...docType.parameters] }
+					: docType;
 				let varargType: LuaType | undefined;
 
 				// XXX: selectionRange and such will need the identifier part to be processed before (or at least some of it)
 				this.symbolEnter('Identifier' === node.identifier?.type ? node.identifier.name : "<anonymous>", SymbolKind.Function, range, range);
-					this.contextPush(node);
-						const previousScope = this.scopeFork(range, "function line " + node.loc?.start.line);
-							const parameters = node.parameters.flatMap((it, k) => {
-								const augmented = it as aug.Identifier | aug.VarargLiteral;
-								const itRange = locToRange(it.loc);
-								if ('Identifier' === augmented.type) {
-									if (Object.prototype.hasOwnProperty.call(this.currentScope, augmented.name)) {
-										this.variableUpdate(augmented.name, itRange, overrideType ? overrideType.parameters[k].type : 'nil');
-										this.warning(`${augmented.name} is shadowing a previous local variable`, itRange);
-									} else this.variableDeclare(augmented.name, itRange, overrideType ? overrideType.parameters[k].type : 'nil'); // TODO: 'unknown'
-									(augmented as any).doNotTryToFindDocPlease = true;
-									this.handlers.Identifier(augmented);
-
-									return [{
-										name: augmented.name,
-										type: augmented.augType ?? 'nil', // TODO: 'unknown'
-									}];
-								} else {
-									varargType = overrideType && overrideType.vararg || []; // TODO: 'unknown'
-
-									augmented.augType = varargType;
-									this.handlers.VarargLiteral(augmented);
-
-									return [];
+					// a function which refers to itself is explored again with the return found
+					// each time, until it is the same (or else it is given up on as `unknown`)
+					const augmented = node as aug.FunctionDeclaration;
+					let partial: LuaFunction | undefined;
+					let parameters: LuaFunction['parameters'] = [];
+					let ret: LuaType = 'unknown';
+					let givenUp = false;
+					for (let pass = 1;; pass++) {
+						const rollback = this.checkpoint();
+						// the quick fixes renaming a shadowing parameter, completed once the body is explored
+						const renames: { name: string, fix: DiagnosticFix & { rename: { newName: string } } }[] = [];
+						this.contextPush(node);
+							const previousScope = this.scopeFork(range, "function line " + node.loc?.start.line);
+								if (isMethod) {
+									this.variableDeclare('self', locToRange(undefined), overrideType ? overrideType.parameters[0].type : selfType);
+									const declared = this.variableLookup('self')!;
+									declared.parameter = true;
+									declared.implicit = true;
 								}
-							});
-
-							const augmented = node as aug.FunctionDeclaration;
 
-							// partial: because the body is not processed, no idea about
-							// type for the returns (if not given through type hint/doc)
-							const partial = overrideType ? overrideType : { parameters, return: 'nil' as ('nil'), vararg: varargType }; // TODO: 'unknown'
-							augmented.augType = partial;
+								parameters = node.parameters.flatMap((it, k) => {
+									const augmented = it as aug.Identifier | aug.VarargLiteral;
+									const itRange = locToRange(it.loc);
+									if ('Identifier' === augmented.type) {
+										// (a global is not shadowed, but can be accessed as such)
+										const shadowed = this.variableLookup(augmented.name);
+										if (shadowed && shadowed !== this.globalScope.variables[augmented.name]) {
+											const fix = { title: "", rename: { range: itRange, newName: augmented.name } };
+											renames.push({ name: augmented.name, fix });
+											this.warning(`${augmented.name} is shadowing a previous local variable`, itRange, 'shadowing', fix);
+										}
+										this.variableDeclare(augmented.name, itRange, overrideType
+											? overrideType.parameters[k + offset]?.type ?? 'nil'
+											: (node as aug.FunctionDeclaration).augExpected?.parameters[k + offset]?.type ?? 'unknown');
+										const declared = this.variableLookup(augmented.name);
+										if (declared) declared.parameter = true;
+										(augmented as any).doNotTryToFindDocPlease = true;
+										this.handlers.Identifier(augmented);
+
+										return [{
+											name: augmented.name,
+											type: augmented.augType ?? 'unknown',
+										}];
+									} else {
+										varargType = overrideType ? overrideType.vararg ?? [] : 'unknown';
+
+										augmented.augType = varargType;
+										this.handlers.VarargLiteral(augmented);
+
+										return [];
+									}
+								});
 
-							if ('Identifier' === node.identifier?.type) {
-								if (Object.prototype.hasOwnProperty.call(this.currentScope, node.identifier.name)) {
-									this.variableUpdate(node.identifier.name, identRange!, partial);
-									this.warning(`${node.identifier.name} is shadowing a previous local variable`, identRange!);
-								} else {
-									if (node.isLocal) this.variableDeclare(node.identifier.name, identRange!, partial, previousScope);
-									else this.variableDeclare(node.identifier.name, identRange!, partial, this.globalScope);
+								if (isMethod)
+									parameters.unshift({ name: 'self', type: this.variableLookup('self')!.types[0] });
+
+								// partial: because the body is not processed, no idea about
+								// type for the returns (if not given through type hint/doc)
+								partial ??= overrideType ? overrideType : { parameters, return: 'unknown', vararg: varargType };
+								augmented.augType = partial;
+								if (!overrideType) this.recursions.set(partial, false);
+
+								if ('Identifier' === node.identifier?.type) {
+									if (Object.prototype.hasOwnProperty.call(this.currentScope, node.identifier.name)) {
+										this.variableUpdate(node.identifier.name, identRange!, partial);
+										this.warning(`${node.identifier.name} is shadowing a previous local variable`, identRange!, 'shadowing');
+									} else {
+										if (node.isLocal) this.variableDeclare(node.identifier.name, identRange!, partial, previousScope);
+										else this.variableDeclare(node.identifier.name, identRange!, partial, this.globalScope);
+									}
+								} else if (augmented.augAssigned && !Object.prototype.hasOwnProperty.call(this.currentScope.variables, augmented.augAssigned.name)) {
+									// (unless a parameter is shadowing it)
+									const assigned = augmented.augAssigned;
+									const variable = this.variableLookup(assigned.name);
+									if (variable) this.variableUpdate(assigned.name, locToRange(assigned.loc), partial, variable.scopes[0]);
 								}
-							}
 
-							node.body.forEach(it => this.handlers[it.type](it as any));
-						this.scopeRestore(previousScope);
-					this.contextPop('FunctionDeclaration');
-
-					// join 'return's found as a union
-					const ret = !augmented.augReturns
-						? 'nil'
-						: buildBinaryTree(augmented.augReturns
-								.map(it => {
-									const list = resolveListOfTypes((it.arguments as aug.Expression[]).map(_it => _it.augType));
-									return 0 === list.length ? 'nil'
-										: 1 === list.length ? list[0]
-										: list;
-								}), 'or'
-							) ?? 'nil';
-					const resolved = { parameters, return: ret, vararg: varargType };
+								node.body.forEach(it => this.handlers[it.type](it as any));
+
+								// (a new name which is neither visible nor used anywhere in the function)
+								if (renames.length) {
+									const used = new Set(Object.values(this.lutVariables)
+										.filter(it => rangeContains(range, it.range.start))
+										.map(it => it.name));
+									renames.forEach(({ name, fix }) => {
+										let newName = name;
+										for (let n = 2; used.has(newName) || this.variableLookup(newName); n++) newName = name + n;
+										fix.title = `Rename to '${newName}'`;
+										fix.rename.newName = newName;
+									});
+								}
+							this.scopeRestore(previousScope);
+						this.contextPop('FunctionDeclaration');
+
+						// join 'return's found as a union
+						const returns = (augmented.augReturns ?? [])
+							.map(it => {
+								const list = resolveListOfTypes((it.arguments as aug.Expression[]).map(_it => _it.augType));
+								return 0 === list.length ? 'nil'
+									: 1 === list.length ? list[0]
+									: list;
+							});
+						ret = buildBinaryTree(returns, 'or') ?? 'nil';
+
+						const recursive = this.recursions.get(partial!);
+						this.recursions.delete(partial!);
+						if (givenUp) ret = 'unknown';
+						if (givenUp || !recursive) break;
+
+						// the first pass only knew the recursive call as `unknown`, so the
+						// next one starts from the returns which did not depend on it
+						const next = 1 === pass
+							? buildBinaryTree(returns.filter(it => !isUnknown(it)), 'or') ?? 'unknown'
+							: ret;
+						if (next === partial!.return || equivalent(simplify(next), simplify(partial!.return))) break;
+
+						rollback();
+						forget(node.parameters);
+						forget(node.body);
+						augmented.augReturns = undefined;
+						givenUp = MAX_PASSES <= pass;
+						partial!.return = givenUp ? 'unknown' : next;
+					}
+					// (the function itself is kept as is within its return, as it is completed below)
+					ret = simplify(ret, 1, new Map([[partial!, partial!]]));
+					// (without doc comment, the partial type is completed so it is the same function)
+					const resolved = overrideType ? { parameters, return: ret, vararg: varargType } : Object.assign(partial!, { return: ret });
 
 					augmented.augType = overrideType ? overrideType : resolved;
 
-					if (overrideType && !equivalent(overrideType, resolved)) {
-						this.warning("signature is conflicting with the doc comment's type", identRange ?? range);
-						augmented.augReturns?.forEach(it => this.warning("signature is conflicting with the doc comment's type", locToRange(it.loc)));
+					if (overrideType && !isAssignable(resolved, overrideType)) {
+						this.warning("signature is conflicting with the doc comment's type", identRange ?? range, 'doc-conflict');
+						augmented.augReturns?.forEach(it => this.warning("signature is conflicting with the doc comment's type", locToRange(it.loc), 'doc-conflict'));
 					}
 
 					if (node.identifier) {
 						if ('Identifier' === node.identifier.type) {
 							if (Object.prototype.hasOwnProperty.call(this.currentScope, node.identifier.name)) {
 								this.variableUpdate(node.identifier.name, identRange!, augmented.augType);
-								this.warning(`${node.identifier.name} is shadowing a previous local variable`, identRange!);
+								this.warning(`${node.identifier.name} is shadowing a previous local variable`, identRange!, 'shadowing');
 							} else {
 								if (node.isLocal) this.variableUpdate(node.identifier.name, identRange!, augmented.augType);
 								else this.variableUpdate(node.identifier.name, identRange!, augmented.augType, this.globalScope);
@@ -468,7 +996,7 @@ export class SelfExplore {
 				const range = locToRange(loc);
 				if (Object.prototype.hasOwnProperty.call(this.currentScope.labels, label.name)) {
 					const previous = this.currentScope.labels[label.name];
-					this.warning("label already defined line " + previous?.start.line, range);
+					this.warning("label already defined line " + previous?.start.line, range, 'label');
 				} else {
 					this.currentScope.labels[label.name] = range;
 				}
@@ -478,7 +1006,7 @@ export class SelfExplore {
 
 			GotoStatement: ({ label, loc }) => {
 				if (!Object.prototype.hasOwnProperty.call(this.currentScope.labels, label.name))
-					this.warning("label not defined or not visible", locToRange(loc));
+					this.warning("label not defined or not visible", locToRange(loc), 'label');
 				else {
 					const range = locToRange(label.loc);
 					const line = this.currentScope.labels[label.name]?.start.line ?? 0;
@@ -494,7 +1022,7 @@ export class SelfExplore {
 			ReturnStatement: (node) => {
 				const fun = this.contextFind('FunctionDeclaration');
 				if (!fun) {
-					this.error("no function to return from", locToRange(node.loc));
+					this.error("no function to return from", locToRange(node.loc), 'outside-function');
 					return;
 				}
 				if (!fun.augReturns) fun.augReturns = [];
@@ -504,7 +1032,14 @@ export class SelfExplore {
 
 			IfStatement: (node) => {
 				this.contextPush(node);
-					node.clauses.forEach(it => this.handlers[it.type](it as any));
+					// a clause is only reached if the conditions before it did not hold
+					const count = this.narrowings.length;
+					node.clauses.forEach(it => {
+						this.handlers[it.type](it as any);
+						if ('ElseClause' !== it.type)
+							this.narrowings.push(this.narrowingsOf(it.condition, false));
+					});
+					this.narrowings.splice(count);
 				this.contextPop('IfStatement');
 			},
 
@@ -512,9 +1047,11 @@ export class SelfExplore {
 				this.contextPush(node);
 					this.handlers[node.condition.type](node.condition as any);
 
-					const previousScope = this.scopeFork(locToRange(node.loc), "while line " + node.loc?.start.line);
-						node.body.forEach(it => this.handlers[it.type](it as any));
-					this.scopeRestore(previousScope);
+					this.narrowings.push(this.narrowingsOf(node.condition, true));
+						const previousScope = this.scopeFork(locToRange(node.loc), "while line " + node.loc?.start.line);
+							node.body.forEach(it => this.handlers[it.type](it as any));
+						this.scopeRestore(previousScope);
+					this.narrowings.pop();
 				this.contextPop('WhileStatement');
 			},
 
@@ -542,16 +1079,17 @@ export class SelfExplore {
 					return (it as aug.Expression).augType ?? 'nil';
 				});
 				const types = resolveListOfTypes(typesFromExpressions);
+				const rest = typeAfterList(types);
 
 				node.variables.forEach((it, k) => {
 					const range = locToRange(it.loc);
 
 					this.symbolEnter(it.name, SymbolKind.Object, range, range);
 						if (Object.prototype.hasOwnProperty.call(this.currentScope, it.name)) {
-							this.variableUpdate(it.name, range, types[k] ?? 'nil');
-							this.warning(`${it.name} is already a local variable`, range);
+							this.variableUpdate(it.name, range, types[k] ?? rest);
+							this.warning(`${it.name} is already a local variable`, range, 'shadowing');
 						} else {
-							this.variableDeclare(it.name, range, types[k] ?? 'nil');
+							this.variableDeclare(it.name, range, types[k] ?? rest);
 							this.handlers.Identifier(it);
 						}
 					this.symbolExit();
@@ -570,22 +1108,38 @@ export class SelfExplore {
 						if (!this.variableLookup(it.name)) {
 							this.symbolEnter(it.name, SymbolKind.Object, range, range);
 								// declare globally
-								this.variableDeclare(it.name, range, 'nil', this.globalScope); // TODO: 'unknown'
+								this.variableDeclare(it.name, range, 'unknown', this.globalScope);
 								this.handlers.Identifier(it);
 							this.symbolExit();
+
+							// (only for a single variable, as `local` would apply to all)
+							const block = [...this.lutScopes].reverse().find(_it => _it.scope === this.currentScope)?.range;
+							if (block && 1 === node.variables.length && this.contextFind('FunctionDeclaration')) this.blockGlobals.push({
+								name: it.name,
+								variable: this.globalScope.variables[it.name]!,
+								statement: locToRange(node.loc),
+								block,
+							});
 						}
 					}
 				});
 
+				// `a = function() return a end` refers to itself, as does a named function
+				const [target] = node.variables;
+				const [init] = node.init;
+				if (1 === node.variables.length && 1 === node.init.length && 'Identifier' === target.type && 'FunctionDeclaration' === init.type)
+					(init as aug.FunctionDeclaration).augAssigned = target;
+
 				const typesFromExpressions = node.init.map(it => {
 					this.handlers[it.type](it as any);
 					return (it as aug.Expression).augType ?? 'nil';
 				});
 				const types = resolveListOfTypes(typesFromExpressions);
+				const rest = typeAfterList(types);
 
 				node.variables.forEach((it, k) => {
 					const range = locToRange(it.loc);
-					const type = types[k] ?? 'nil';
+					const type = types[k] ?? rest;
 
 					if ('Identifier' === it.type) {
 						// if 'name' is visible from current scope
@@ -622,7 +1176,7 @@ export class SelfExplore {
 						if (!this.variableLookup(it.name)) {
 							this.symbolEnter(it.name, SymbolKind.Object, range, range);
 								// declare globally
-								this.variableDeclare(it.name, range, 'nil', this.globalScope); // TODO: 'unknown'
+								this.variableDeclare(it.name, range, 'unknown', this.globalScope);
 								this.handlers.Identifier(it);
 							this.symbolExit();
 						}
@@ -634,6 +1188,7 @@ export class SelfExplore {
 					return (it as aug.Expression).augType ?? 'nil';
 				});
 				const types = resolveListOfTypes(typesFromExpressions);
+				const rest = typeAfterList(types);
 
 				// the type for the first variable is inferred from the operation
 				// (as it's the one that behave as intended)
@@ -644,7 +1199,7 @@ export class SelfExplore {
 				// the rest behave like a normal assignment operator statement
 				node.variables.forEach((it, k) => {
 					const range = locToRange(it.loc);
-					const type = types[k] ?? 'nil';
+					const type = types[k] ?? rest;
 
 					if ('Identifier' === it.type) {
 						// if 'name' is visible from current scope
@@ -668,7 +1223,7 @@ export class SelfExplore {
 				});
 
 				if (2 !== node.variables.length + node.init.length)
-					this.warning("assignment operator statement with multiple elements may no behave as expected", locToRange(node.loc));
+					this.warning("assignment operator statement with multiple elements may no behave as expected", locToRange(node.loc), 'assignment-operator');
 			},
 
 			CallStatement: (node) => {
@@ -685,8 +1240,8 @@ export class SelfExplore {
 							if (it) {
 								this.handlers[it.type](it as any);
 								const augmented = it as aug.Expression;
-								if (augmented.augType && 'number' !== augmented.augType && 'any' !== augmented.augType)
-									this.warning(`expected a number, got ${represent(augmented.augType)}`, locToRange(it.loc));
+								if (augmented.augType && !isAssignable(augmented.augType, 'number'))
+									this.warning(`expected a number, got ${represent(augmented.augType)}`, locToRange(it.loc), 'expected-number');
 							}
 						});
 
@@ -697,9 +1252,20 @@ export class SelfExplore {
 
 			ForGenericStatement: (node) => {
 				this.contextPush(node);
+					node.iterators.map(it => this.handlers[it.type](it as any));
+
+					// the variables are what the iterator function returns (eg. `for e in all(t)`)
+					const [iterator] = resolveListOfTypes(node.iterators.map(it => (it as aug.Expression).augType));
+					const types = isLuaFunction(iterator) ? resolveListOfTypes([iterator.return]) : [];
+					const rest = isLuaFunction(iterator) ? typeAfterList(types) : 'unknown';
+
 					const previousScope = this.scopeFork(locToRange(node.loc), "for line " + node.loc?.start.line);
-						node.variables.map(it => this.handlers.Identifier(it));
-						node.iterators.map(it => this.handlers[it.type](it as any));
+						node.variables.forEach((it, k) => {
+							// (the loop ends when the first one is `nil`)
+							const type = types[k] ?? rest;
+							this.variableDeclare(it.name, locToRange(it.loc), 0 === k ? narrow(type, ['nil'], false) : type);
+							this.handlers.Identifier(it);
+						});
 
 						node.body.forEach(it => this.handlers[it.type](it as any));
 					this.scopeRestore(previousScope);
@@ -713,11 +1279,13 @@ export class SelfExplore {
 					this.handlers[node.condition.type](node.condition as any);
 					const augmented = node.condition as aug.Expression;
 					if (augmented.augType && 'nil' === augmented.augType)
-						this.warning("condition seems to be always 'nil'", locToRange(augmented.loc));
+						this.warning("condition seems to be always 'nil'", locToRange(augmented.loc), 'nil-condition');
 
-					const previousScope = this.scopeFork(locToRange(node.loc), "if line " + node.loc?.start.line);
-						node.body.forEach(it => this.handlers[it.type](it as any));
-					this.scopeRestore(previousScope);
+					this.narrowings.push(this.narrowingsOf(node.condition, true));
+						const previousScope = this.scopeFork(locToRange(node.loc), "if line " + node.loc?.start.line);
+							node.body.forEach(it => this.handlers[it.type](it as any));
+						this.scopeRestore(previousScope);
+					this.narrowings.pop();
 				this.contextPop('IfClause');
 			},
 
@@ -726,11 +1294,13 @@ export class SelfExplore {
 					this.handlers[node.condition.type](node.condition as any);
 					const augmented = node.condition as aug.Expression;
 					if (augmented.augType && 'nil' === augmented.augType)
-						this.warning("condition seems to be always 'nil'", locToRange(augmented.loc));
+						this.warning("condition seems to be always 'nil'", locToRange(augmented.loc), 'nil-condition');
 
-					const previousScope = this.scopeFork(locToRange(node.loc), "elseif line " + node.loc?.start.line);
-						node.body.forEach(it => this.handlers[it.type](it as any));
-					this.scopeRestore(previousScope);
+					this.narrowings.push(this.narrowingsOf(node.condition, true));
+						const previousScope = this.scopeFork(locToRange(node.loc), "elseif line " + node.loc?.start.line);
+							node.body.forEach(it => this.handlers[it.type](it as any));
+						this.scopeRestore(previousScope);
+					this.narrowings.pop();
 				this.contextPop('ElseifClause');
 			},
 
@@ -757,7 +1327,7 @@ export class SelfExplore {
 						augmented.augKey = node.key.value;
 					else augmented.augKey = { type }; // YYY: label (?)
 				} else if ('nil' === type) {
-					this.warning("the table will not be indexable by 'nil'", locToRange(node.key.loc));
+					this.warning("the table will not be indexable by 'nil'", locToRange(node.key.loc), 'nil-key');
 					augmented.augKey = null;
 				}
 				augmented.augType = (node.value as aug.Expression).augType ?? 'nil';
@@ -776,6 +1346,7 @@ export class SelfExplore {
 					name: node.key.name,
 					type: augmented.augType,
 					scope: this.currentScope,
+					field: true,
 				};
 			},
 
@@ -825,8 +1396,11 @@ export class SelfExplore {
 							if (!type.typed) type.typed = {};
 							type.typed[augmented.augKey.type] = t;
 						}
-						else if ('string' === typeof augmented.augKey)
+						else if ('string' === typeof augmented.augKey) {
 							type.entries[augmented.augKey] = t;
+							if ('TableKeyString' === it.type)
+								this.fieldLocate(type, augmented.augKey, locToRange(it.key.loc), true);
+						}
 						else if ('number' === typeof augmented.augKey)
 							type.sequence[augmented.augKey] = t;
 						else if ('boolean' === typeof augmented.augKey)
@@ -843,8 +1417,11 @@ export class SelfExplore {
 				this.handlers[node.argument.type](node.argument as any);
 
 				const augmented = node.argument as aug.Expression;
-				if (augmented.augType && 'not' !== node.operator && 'number' !== augmented.augType && 'any' !== augmented.augType)
-					this.warning(`expected a number, got ${represent(augmented.augType)}`, locToRange(augmented.loc));
+				if (augmented.augType && '#' === node.operator) {
+					if (!isAssignable(augmented.augType, { or: ['string', { entries: {}, sequence: {} }] }))
+						this.warning(`expected a string or a table, got ${represent(augmented.augType)}`, locToRange(augmented.loc), 'expected-string-or-table');
+				} else if (augmented.augType && 'not' !== node.operator && !isAssignable(augmented.augType, 'number'))
+					this.warning(`expected a number, got ${represent(augmented.augType)}`, locToRange(augmented.loc), 'expected-number');
 
 				(node as aug.UnaryExpression).augType = 'not' === node.operator
 					? 'boolean'
@@ -860,15 +1437,16 @@ export class SelfExplore {
 				if (isComparison && "==" === node.operator || "!=" === node.operator || "~=" === node.operator) {
 					const leftAugmented = node.left as aug.Expression;
 					const rightAugmented = node.right as aug.Expression;
-					if (leftAugmented.augType && rightAugmented.augType && 'any' !== leftAugmented.augType && 'any' !== rightAugmented.augType && !equivalent(leftAugmented.augType, rightAugmented.augType))
-						this.warning(`comparing different types ${represent(leftAugmented.augType)} and ${represent(rightAugmented.augType)}`, locToRange(node.loc));
+					// only if neither could be the other (eg. `number | nil` and `nil` can be equal)
+					if (leftAugmented.augType && rightAugmented.augType && !isAssignable(leftAugmented.augType, rightAugmented.augType) && !isAssignable(rightAugmented.augType, leftAugmented.augType))
+						this.warning(`comparing different types ${represent(leftAugmented.augType)} and ${represent(rightAugmented.augType)}`, locToRange(node.loc), 'comparing-types');
 				} else if (isComparison || ".." !== node.operator) {
 					const leftAugmented = node.left as aug.Expression;
-					if (leftAugmented.augType && 'number' !== leftAugmented.augType && 'any' !== leftAugmented.augType)
-						this.warning(`expected a number, got ${represent(leftAugmented.augType)}`, locToRange(leftAugmented.loc));
+					if (leftAugmented.augType && !isAssignable(leftAugmented.augType, 'number'))
+						this.warning(`expected a number, got ${represent(leftAugmented.augType)}`, locToRange(leftAugmented.loc), 'expected-number');
 					const rightAugmented = node.right as aug.Expression;
-					if (rightAugmented.augType && 'number' !== rightAugmented.augType && 'any' !== rightAugmented.augType)
-						this.warning(`expected a number, got ${represent(rightAugmented.augType)}`, locToRange(rightAugmented.loc));
+					if (rightAugmented.augType && !isAssignable(rightAugmented.augType, 'number'))
+						this.warning(`expected a number, got ${represent(rightAugmented.augType)}`, locToRange(rightAugmented.loc), 'expected-number');
 				}
 
 				(node as aug.BinaryExpression).augType = isComparison
@@ -879,27 +1457,34 @@ export class SelfExplore {
 			},
 
 			LogicalExpression: (node) => {
-				[node.left, node.right].map(it => this.handlers[it.type](it as any));
+				// the right side is only evaluated if the left one holds (`and`) or not (`or`)
+				this.handlers[node.left.type](node.left as any);
+				this.narrowings.push(this.narrowingsOf(node.left, 'and' === node.operator));
+					this.handlers[node.right.type](node.right as any);
+				this.narrowings.pop();
 				const augmented = node as aug.LogicalExpression;
 
 				const leftAugmented = node.left as aug.Expression;
 				const rightAugmented = node.right as aug.Expression;
 				if (leftAugmented.augType && rightAugmented.augType) {
 					if ('and' === node.operator && ('nil' === leftAugmented.augType || 'nil' === rightAugmented.augType))
-						this.warning("condition seems to be always 'nil'", locToRange(node.loc));
+						this.warning("condition seems to be always 'nil'", locToRange(node.loc), 'nil-condition');
 					if ('or' === node.operator && ('nil' === leftAugmented.augType && 'nil' === rightAugmented.augType))
-						this.warning("condition seems to be always 'nil'", locToRange(node.loc));
+						this.warning("condition seems to be always 'nil'", locToRange(node.loc), 'nil-condition');
 				}
 
 				const tyl = (node.left as aug.Expression).augType ?? 'nil';
 				const tyr = (node.right as aug.Expression).augType ?? 'nil';
 				if ('and' === node.operator) {
 					augmented.augType = 'nil' === tyl ? 'nil'
-						: 'boolean' === tyl ? { or: ['boolean', tyr] }
+						: 'boolean' === tyl || 'unknown' === tyl ? { or: [tyl, tyr] }
 						: tyr;
 				} else if ('or' === node.operator) {
+					// eg. `p or 0` is a number if `p` is `number | nil`
+					const truthy = narrow(tyl, ['nil'], false);
 					augmented.augType = 'nil' === tyl ? tyr
-						: 'boolean' === tyl ? { or: ['boolean', tyr] }
+						: 'boolean' === tyl || 'unknown' === tyl ? { or: [tyl, tyr] }
+						: truthy !== tyl ? { or: [truthy, tyr] }
 						: tyl;
 				}
 			},
@@ -907,21 +1492,26 @@ export class SelfExplore {
 			MemberExpression: (node) => {
 				this.handlers[node.base.type](node.base as any);
 
-				const tbType = (node.base as aug.Expression).augType;
-				let type: LuaType = 'nil'; // XXX: en gros 'unknown'
+				const baseType = (node.base as aug.Expression).augType;
+				const tbType = baseType && intersectedTable(baseType, node.identifier.name);
+				let type: LuaType = 'unknown';
 
-				if (tbType && !isLuaTable(tbType) && 'any' !== tbType)
-					this.warning(`expected a table, got ${represent(tbType)}`, locToRange(node.base.loc));
+				if (baseType && !tbType && 'any' !== baseType && !isUnknown(baseType))
+					this.warning(`expected a table, got ${represent(baseType)}`, locToRange(node.base.loc), 'expected-table');
 
 				const augmented = node as aug.MemberExpression;
-				if (!augmented.augType) {
-					if (isLuaTable(tbType))
-						type = tbType.entries[node.identifier.name] ?? 'nil';
+				const write = !!augmented.augType;
+				// a field which is read may be inherited (through a metatable)
+				const owner = tbType && (write ? tbType : fieldOwner(tbType, node.identifier.name) ?? tbType);
+				if (!write) {
+					// the field may still be set later on (eg. in a function)
+					if (owner)
+						type = owner.entries[node.identifier.name] ?? 'unknown';
 					augmented.augType = type;
 				} else {
-					if (isLuaTable(tbType))
-						tbType.entries[node.identifier.name] = augmented.augType;
-					type = augmented.augType;
+					if (tbType)
+						tbType.entries[node.identifier.name] = augmented.augType!;
+					type = augmented.augType!;
 				}
 
 				const range = locToRange(node.identifier.loc);
@@ -930,29 +1520,33 @@ export class SelfExplore {
 					name: node.identifier.name,
 					type,
 					scope: this.currentScope,
+					field: true,
 				};
+				if (owner)
+					this.fieldLocate(owner, node.identifier.name, range, write);
 			},
 
 			IndexExpression: (node) => {
 				this.handlers[node.base.type](node.base as any);
 				this.handlers[node.index.type](node.index as any);
 
-				const tbType = (node.base as aug.Expression).augType;
+				const baseType = (node.base as aug.Expression).augType;
+				const tbType = baseType && intersectedTable(baseType);
 				const keyType = (node.index as aug.Expression).augType;
 
-				if (tbType && !isLuaTable(tbType) && 'any' !== tbType)
-					this.warning(`expected a table, got ${represent(tbType)}`, locToRange(node.base.loc));
+				if (baseType && !tbType && 'any' !== baseType && !isUnknown(baseType))
+					this.warning(`expected a table, got ${represent(baseType)}`, locToRange(node.base.loc), 'expected-table');
 				if (keyType && ('string' !== typeof keyType || 'nil' === keyType))
-					this.warning(`expected a string, number or boolean, got ${represent(keyType)}`, locToRange(node.index.loc));
+					this.warning(`expected a string, number or boolean, got ${represent(keyType)}`, locToRange(node.index.loc), 'expected-key');
 
 				const augmented = node as aug.IndexExpression;
 				if (!augmented.augType) {
-					let type: LuaType = 'nil'; // XXX: en gros 'unknown'
-					if (isLuaTable(tbType) && ('string' === keyType || 'number' === keyType || 'boolean' === keyType))
-						type = tbType.typed?.[keyType] ?? 'nil';
+					let type: LuaType = 'unknown';
+					if (tbType && ('string' === keyType || 'number' === keyType || 'boolean' === keyType))
+						type = tbType.typed?.[keyType] ?? 'unknown';
 					augmented.augType = type;
 				} else {
-					if (isLuaTable(tbType) && ('string' === keyType || 'number' === keyType || 'boolean' === keyType)) {
+					if (tbType && ('string' === keyType || 'number' === keyType || 'boolean' === keyType)) {
 						if (!tbType.typed) tbType.typed = {};
 						tbType.typed[keyType] = augmented.augType;
 					}
@@ -964,23 +1558,51 @@ export class SelfExplore {
 					this.handlers[node.base.type](node.base as any);
 
 					const fnType = (node.base as aug.Expression).augType;
-					const yesFnType = isLuaFunction(fnType) ? fnType : undefined;
 
-					if (fnType && !yesFnType && 'any' !== fnType as any)
-						this.warning(`expected a function, got ${represent(fnType)}`, locToRange(node.base.loc));
+					if (fnType && !isLuaFunction(fnType) && 'any' !== fnType && !isUnknown(fnType))
+						this.warning(`expected a function, got ${represent(fnType)}`, locToRange(node.base.loc), 'expected-function');
+
+					// (the arguments first, as they tell the type parameters)
+					node.arguments.forEach((it, k) => {
+						// a function given as argument is typed from the expected callback (eg. with `foreach`)
+						if ('FunctionDeclaration' === it.type && isLuaFunction(fnType)) {
+							const known: LuaType[] = node.arguments.map((_it, _k) => _k < k && (_it as aug.Expression).augType || 'unknown');
+							const isMethod = 'MemberExpression' === node.base.type && ':' === node.base.indexer;
+							if (isMethod) known.unshift(((node.base as aug.MemberExpression).base as aug.Expression).augType ?? 'unknown');
+							const expected = instantiate(fnType, known).parameters[k + (isMethod ? 1 : 0)]?.type;
+							if (isLuaFunction(expected)) (it as aug.FunctionDeclaration).augExpected = expected;
+						}
+						this.handlers[it.type](it as any);
+					});
+					const yesFnType = isLuaFunction(fnType) ? this.callSignature(fnType, node.base, node.arguments) : undefined;
 
 					(node as aug.CallExpression).augType = yesFnType
 						? yesFnType.return
-						: 'nil';
+						: 'unknown';
 
 					node.arguments.forEach((it, k) => {
-						this.handlers[it.type](it as any);
-
 						const augmented = it as aug.Expression;
-						const expected = yesFnType && yesFnType.parameters[k]?.type || 'nil';
-						if (augmented.augType && yesFnType && !('any' === augmented.augType || 'any' === expected) && !equivalent(expected, augmented.augType))
-							this.warning(`expected ${represent(expected)}${'nil' === expected ? " (or nothing)" : ""}, got ${represent(augmented.augType)}`, locToRange(it.loc));
+						const expected = yesFnType && (yesFnType.parameters[k]?.type ?? yesFnType.vararg) || 'nil';
+						if (augmented.augType && yesFnType && !isAssignable(augmented.augType, expected))
+							this.warning(`expected ${represent(expected)}${'nil' === expected ? " (or nothing)" : ""}, got ${represent(augmented.augType)}`, locToRange(it.loc), 'argument-type');
 					});
+
+					if (yesFnType)
+						this.argumentsMissing(yesFnType, node.arguments, locToRange(node.loc));
+
+					// `setmetatable(t, mt)` gives `t` its metatable (and returns it)
+					if ('Identifier' === node.base.type && 'setmetatable' === node.base.name && 'api' === this.variableLookup(node.base.name)?.predefined) {
+						const [tbType, mtType] = node.arguments.map(it => (it as aug.Expression).augType);
+						const metatable = mtType && intersectedTable(mtType);
+						if (tbType && metatable) (flattenBinaryTree<'or', LuaType>(tbType as { or: [LuaType, LuaType] }, 'or') ?? [tbType])
+							.forEach(it => {
+								if (isLuaTable(it)) it.metatable = metatable;
+							});
+						(node as aug.CallExpression).augType = tbType ?? 'unknown';
+					}
+
+					if ('Identifier' === node.base.type)
+						this.callLocate(node.base.name, locToRange(node.base.loc), node.arguments);
 				this.contextPop('CallExpression');
 			},
 
@@ -989,21 +1611,23 @@ export class SelfExplore {
 					this.handlers[node.base.type](node.base as any);
 
 					const fnType = (node.base as aug.Expression).augType;
-					const yesFnType = isLuaFunction(fnType) ? fnType : undefined;
-
-					if (fnType && !isLuaFunction(fnType) && 'any' !== fnType)
-						this.warning(`expected a function, got ${represent(fnType)}`, locToRange(node.base.loc));
 
-					(node as aug.TableCallExpression).augType = isLuaFunction(fnType)
-						? fnType.return
-						: 'nil';
+					if (fnType && !isLuaFunction(fnType) && 'any' !== fnType && !isUnknown(fnType))
+						this.warning(`expected a function, got ${represent(fnType)}`, locToRange(node.base.loc), 'expected-function');
 
 					this.handlers[node.argument.type](node.argument as any);
+					const yesFnType = isLuaFunction(fnType) ? this.callSignature(fnType, node.base, [node.argument]) : undefined;
+
+					(node as aug.TableCallExpression).augType = yesFnType
+						? yesFnType.return
+						: 'unknown';
 
 					const augmented = node.argument as aug.Expression;
-					const expected = yesFnType && yesFnType.parameters[0]?.type || 'nil';
-					if (augmented.augType && yesFnType && !('any' === augmented.augType || 'any' === expected) && !equivalent(expected, augmented.augType))
-						this.warning(`expected ${represent(expected)}${'nil' === expected ? " (or nothing)" : ""}, got ${represent(augmented.augType)}`, locToRange(node.argument.loc));
+					const expected = yesFnType && (yesFnType.parameters[0]?.type ?? yesFnType.vararg) || 'nil';
+					if (augmented.augType && yesFnType && !isAssignable(augmented.augType, expected))
+						this.warning(`expected ${represent(expected)}${'nil' === expected ? " (or nothing)" : ""}, got ${represent(augmented.augType)}`, locToRange(node.argument.loc), 'argument-type');
+					if (yesFnType)
+						this.argumentsMissing(yesFnType, [node.argument], locToRange(node.loc));
 				this.contextPop('TableCallExpression');
 			},
 
@@ -1012,21 +1636,23 @@ export class SelfExplore {
 					this.handlers[node.base.type](node.base as any);
 
 					const fnType = (node.base as aug.Expression).augType;
-					const yesFnType = isLuaFunction(fnType) ? fnType : undefined;
-
-					if (fnType && !isLuaFunction(fnType) && 'any' !== fnType)
-						this.warning(`expected a function, got ${represent(fnType)}`, locToRange(node.base.loc));
 
-					(node as aug.StringCallExpression).augType = isLuaFunction(fnType)
-						? fnType.return
-						: 'nil';
+					if (fnType && !isLuaFunction(fnType) && 'any' !== fnType && !isUnknown(fnType))
+						this.warning(`expected a function, got ${represent(fnType)}`, locToRange(node.base.loc), 'expected-function');
 
 					this.handlers[node.argument.type](node.argument as any);
+					const yesFnType = isLuaFunction(fnType) ? this.callSignature(fnType, node.base, [node.argument]) : undefined;
+
+					(node as aug.StringCallExpression).augType = yesFnType
+						? yesFnType.return
+						: 'unknown';
 
 					const augmented = node.argument as aug.Expression;
-					const expected = yesFnType && yesFnType.parameters[0]?.type || 'nil';
-					if (augmented.augType && yesFnType && !('any' === augmented.augType || 'any' === expected) && !equivalent(expected, augmented.augType))
-						this.warning(`expected ${represent(expected)}${'nil' === expected ? " (or nothing)" : ""}, got ${represent(augmented.augType)}`, locToRange(node.argument.loc));
+					const expected = yesFnType && (yesFnType.parameters[0]?.type ?? yesFnType.vararg) || 'nil';
+					if (augmented.augType && yesFnType && !isAssignable(augmented.augType, expected))
+						this.warning(`expected ${represent(expected)}${'nil' === expected ? " (or nothing)" : ""}, got ${represent(augmented.augType)}`, locToRange(node.argument.loc), 'argument-type');
+					if (yesFnType)
+						this.argumentsMissing(yesFnType, [node.argument], locToRange(node.loc));
 				this.contextPop('StringCallExpression');
 			},
 		//#endregion
@@ -1084,10 +1710,10 @@ export class SelfExplore {
 				if (!augmented.augType) {
 					const fun = this.contextFind('FunctionDeclaration');
 					if (!fun) {
-						this.error("not in a function", locToRange(node.loc));
+						this.error("not in a function", locToRange(node.loc), 'outside-function');
 						return;
 					}
-					augmented.augType = isLuaFunction(fun.augType) && fun.augType.vararg || []; // TODO: 'unknown'
+					augmented.augType = isLuaFunction(fun.augType) ? fun.augType.vararg ?? [] : 'unknown';
 				}
 			},
 		//#endregion
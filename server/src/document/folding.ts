@@ -0,0 +1,91 @@
+import { ast } from 'pico8parse';
+import { FoldingRange, FoldingRangeKind } from 'vscode-languageserver';
+
+import { Cartridge } from './cartridge';
+import { locToRange } from '../util';
+
+// as in 'syntaxes/language-configuration.json'
+const REGION_START = /^\s*--\s*#?region\b/;
+const REGION_END = /^\s*--\s*#?endregion\b/;
+
+// the nodes which body folds up to the line before their last (eg. `end`)
+const BLOCKS = ['FunctionDeclaration', 'DoStatement', 'WhileStatement', 'RepeatStatement', 'ForNumericStatement', 'ForGenericStatement'];
+
+// the nodes which body folds up to their last statement (the next clause or `end` follows)
+const CLAUSES = ['IfClause', 'ElseifClause', 'ElseClause'];
+
+/**
+ * the folding ranges of a document (lines only, `lines` as in the text):
+ *  - each `__xyz__` section of a cartridge
+ *  - each tab of the `__lua__` section, from its `-->8` separator (the first one
+ *    has none, it starts with the section) when there is more than one
+ *  - each `--#region` up to its `--#endregion`
+ *  - each long comment
+ *  - the body of each function, `do`, `if` clause and loop
+ *
+ * the empty lines at the end of a section or a tab are not folded
+ *
+ * @param chunk parsed from the `lines`, if parsed
+ * @param cartridge if the document is one
+ */
+export function foldingRanges(chunk: ast.Chunk, lines: string[], cartridge: Cartridge | undefined) {
+	const ranges: FoldingRange[] = [];
+	const fold = (startLine: number, endLine: number, kind?: FoldingRangeKind) => {
+		if (startLine < endLine) ranges.push({ startLine, endLine, kind });
+	};
+	const lastFilled = (first: number, last: number) => {
+		while (first < last && !lines[last]?.trim()) last--;
+		return last;
+	};
+
+	cartridge?.sections.forEach(section => {
+		fold(section.header, lastFilled(section.header, section.last));
+
+		if ('lua' !== section.name) return;
+		// (the first tab starts with the section, without separator)
+		let tab = section.first;
+		let separated = false;
+		for (let line = section.first; line <= section.last; line++) {
+			if (!lines[line]?.startsWith("-->8")) continue;
+			fold(tab, lastFilled(tab, line-1));
+			tab = line;
+			separated = true;
+		}
+		if (separated) fold(tab, lastFilled(tab, section.last));
+	});
+
+	const regions: number[] = [];
+	lines.forEach((line, k) => {
+		if (REGION_START.test(line)) regions.push(k);
+		else if (REGION_END.test(line)) {
+			const start = regions.pop();
+			if (undefined !== start) fold(start, k, FoldingRangeKind.Region);
+		}
+	});
+
+	chunk.comments?.forEach(it => {
+		const range = locToRange(it.loc);
+		fold(range.start.line, range.end.line, FoldingRangeKind.Comment);
+	});
+
+	const walk = (node: unknown): void => {
+		if (!node || 'object' !== typeof node) return;
+		if (Array.isArray(node)) return node.forEach(walk);
+
+		const it = node as ast.Node;
+		if (it.loc && BLOCKS.includes(it.type)) {
+			const range = locToRange(it.loc);
+			fold(range.start.line, range.end.line-1);
+		} else if (it.loc && CLAUSES.includes(it.type)) {
+			const range = locToRange(it.loc);
+			fold(range.start.line, range.end.line);
+		}
+
+		Object.keys(it).forEach(key => {
+			if ('loc' !== key && !key.startsWith('aug')) walk((it as unknown as Record<string, unknown>)[key]);
+		});
+	};
+	walk(chunk.body);
+
+	return ranges;
+}
@@ -0,0 +1,467 @@
+import { ast } from 'pico8parse';
+import { TextEdit } from 'vscode-languageserver';
+import { Range } from 'vscode-languageserver-textdocument';
+
+export type FormatOptions = {
+	// string for one level of indentation (eg. a tab)
+	indent: string,
+	// tables which would be longer than this are laid out one field per line
+	lineWidth: number,
+	// identifiers to print with another name, by their 0-based
+	// position as `:line:character` (see `minify.ts`)
+	names?: { [startPos: string]: string },
+}
+
+// a location as in the AST (ie. line is 1-based, column is 0-based)
+type Loc = { line: number, column: number }
+
+function isBefore(a: Loc, b: Loc) {
+	return a.line < b.line || a.line === b.line && a.column < b.column;
+}
+
+const START: Loc = { line: 0, column: 0 };
+
+function start(node: ast.Node) {
+	return node.loc?.start ?? START;
+}
+
+function end(node: ast.Node) {
+	return node.loc?.end ?? START;
+}
+
+/**
+ * pretty-prints statements back to source code; the AST does not hold
+ * everything that matters, so the original text is looked at for:
+ * ```plaintext
+ * parenthesis (they are kept as they were)
+ * shorthand forms (`if (c) x`, `while (c) x`, `?x`)
+ * `#include` directives (parsed as comments)
+ * ```
+ *
+ * comments are printed in order, before the statement they precede
+ * or at the end of the line of the statement they follow
+ */
+class Printer {
+
+	// depth of the shorthand forms being printed, which must fit a single line
+	private inline = 0;
+
+	constructor(private lines: string[], private comments: ast.Comment[], private options: FormatOptions) { }
+
+	private indent(depth: number) {
+		return this.options.indent.repeat(depth);
+	}
+
+	private name(node: ast.Identifier) {
+		const { line, column } = start(node);
+		return this.options.names?.[`:${line-1}:${column}`] ?? node.name;
+	}
+
+//#region comments
+	private comment(node: ast.Comment) {
+		const { line, column } = start(node);
+		const raw = node.raw;
+		if (raw.startsWith("--nclude") && this.lines[line-1].startsWith("#include", column))
+			return "#include" + raw.slice("--nclude".length);
+		return raw;
+	}
+
+	/**
+	 * the comments on the original `line` (and before `limit`), to append to a line
+	 */
+	private takeTrailing(line: number, limit: Loc) {
+		let trailing = "";
+		while (this.comments.length && line === start(this.comments[0]).line && isBefore(start(this.comments[0]), limit))
+			trailing+= " " + this.comment(this.comments.shift()!);
+		return trailing;
+	}
+
+	private hasCommentBefore(limit: Loc) {
+		return !!this.comments.length && isBefore(start(this.comments[0]), limit);
+	}
+//#endregion
+
+//#region statements
+	/**
+	 * the lines of a block (indented), with the comments until `limit`
+	 *
+	 * @param previousLine original line of what comes before (eg. the block's header)
+	 */
+	statements(body: ast.Statement[], depth: number, previousLine: number, limit: Loc) {
+		const result: string[] = [];
+		const indent = this.indent(depth);
+
+		const separate = (line: number) => {
+			if (result.length && 1 < line - previousLine) result.push("");
+		};
+
+		const leading = (before: Loc) => {
+			while (this.hasCommentBefore(before)) {
+				const node = this.comments.shift()!;
+				const raw = this.comment(node);
+				separate(start(node).line);
+				result.push((raw.startsWith("-->8") ? "" : indent) + raw);
+				previousLine = end(node).line;
+			}
+		};
+
+		body.forEach((node, k) => {
+			leading(start(node));
+			separate(start(node).line);
+			const next = body[k+1] ? start(body[k+1]) : limit;
+			result.push(indent + this.statement(node, depth) + this.takeTrailing(end(node).line, next));
+			previousLine = end(node).line;
+		});
+		leading(limit);
+
+		return result;
+	}
+
+	/**
+	 * a block with its header and closer (eg. `function f()` ... `end`)
+	 */
+	private block(header: string, body: ast.Statement[], depth: number, headerLine: number, limit: Loc, closer = "end") {
+		if (this.inline)
+			return [header, ...body.map(it => this.statement(it, depth+1)), closer].join(" ");
+
+		const trailing = this.takeTrailing(headerLine, body[0] ? start(body[0]) : limit);
+		const lines = this.statements(body, depth+1, headerLine, limit);
+		if (!trailing && !lines.length) return `${header} ${closer}`;
+		return [header + trailing, ...lines, this.indent(depth) + closer].join("\n");
+	}
+
+	/**
+	 * the statements of a shorthand form, on a single line
+	 */
+	private shorthand(body: ast.Statement[], depth: number) {
+		this.inline++;
+		const result = body.map(it => this.statement(it, depth)).join(" ");
+		this.inline--;
+		return result;
+	}
+
+	/**
+	 * the word which follows a node in the original text (skipping
+	 * closing parenthesis), eg. to tell `if (c) x` from `if (c) then x end`
+	 */
+	private wordAfter(node: ast.Node) {
+		let line = end(node).line-1;
+		let rest = this.lines[line].slice(end(node).column);
+		while (!/[^\s)]/.test(rest) && ++line < this.lines.length) rest = this.lines[line];
+		return /^[\s)]*(\w*)/.exec(rest)?.[1];
+	}
+
+	statement(node: ast.Statement, depth: number): string {
+		switch (node.type) {
+			case 'LabelStatement':
+				return `::${node.label.name}::`;
+
+			case 'BreakStatement':
+				return "break";
+
+			case 'GotoStatement':
+				return `goto ${node.label.name}`;
+
+			case 'ReturnStatement':
+				return ["return", this.list(node.arguments, depth)].filter(it => it).join(" ");
+
+			case 'IfStatement': {
+				const [first, ...others] = node.clauses;
+				if ('then' !== this.wordAfter(first.condition)) {
+					let result = `if (${this.expression(first.condition, depth, 1)}) ${this.shorthand(first.body, depth)}`;
+					others.forEach(it => result+= " else " + this.shorthand(it.body, depth));
+					return result;
+				}
+
+				const headers = node.clauses.map(it => 'ElseClause' === it.type
+					? "else"
+					: `${'IfClause' === it.type ? "if" : "elseif"} ${this.expression(it.condition, depth)} then`);
+
+				if (this.inline) return [
+					...node.clauses.map((it, k) => [headers[k], ...it.body.map(it => this.statement(it, depth+1))].join(" ")),
+					"end",
+				].join(" ");
+
+				if (1 === node.clauses.length && !first.body.length && !this.hasCommentBefore(end(node)))
+					return `${headers[0]} end`;
+
+				const lines: string[] = [];
+				node.clauses.forEach((it, k) => {
+					const headerLine = 'ElseClause' === it.type ? start(it).line : end(it.condition).line;
+					const limit = node.clauses[k+1] ? start(node.clauses[k+1]) : end(node);
+					const header = (k ? this.indent(depth) : "") + headers[k];
+					lines.push(header + this.takeTrailing(headerLine, it.body[0] ? start(it.body[0]) : limit));
+					lines.push(...this.statements(it.body, depth+1, headerLine, limit));
+				});
+				lines.push(this.indent(depth) + "end");
+				return lines.join("\n");
+			}
+
+			case 'WhileStatement':
+				if ('do' !== this.wordAfter(node.condition))
+					return `while (${this.expression(node.condition, depth, 1)}) ${this.shorthand(node.body, depth)}`;
+				return this.block(`while ${this.expression(node.condition, depth)} do`, node.body, depth, end(node.condition).line, end(node));
+
+			case 'DoStatement':
+				return this.block("do", node.body, depth, start(node).line, end(node));
+
+			case 'RepeatStatement':
+				return this.block("repeat", node.body, depth, start(node).line, start(node.condition), `until ${this.expression(node.condition, depth)}`);
+
+			case 'LocalStatement':
+			case 'AssignmentStatement':
+			case 'AssignmentOperatorStatement': {
+				const variables = this.list(node.variables, depth);
+				const local = 'LocalStatement' === node.type ? "local " : "";
+				const operator = 'AssignmentOperatorStatement' === node.type ? node.operator + "=" : "=";
+				if (!node.init.length) return local + variables;
+				return `${local}${variables} ${operator} ${this.list(node.init, depth)}`;
+			}
+
+			case 'CallStatement': {
+				const call = node.expression;
+				if ('CallExpression' === call.type && 'Identifier' === call.base.type && "?" === this.lines[start(call.base).line-1].charAt(start(call.base).column)) {
+					this.inline++;
+					const result = "?" + this.list(call.arguments, depth);
+					this.inline--;
+					return result;
+				}
+				return this.expression(call, depth);
+			}
+
+			case 'FunctionDeclaration':
+				return this.function(node, depth);
+
+			case 'ForNumericStatement': {
+				const range = [node.start, node.end, node.step].filter((it): it is ast.Expression => !!it);
+				const header = `for ${this.name(node.variable)} = ${this.list(range, depth)} do`;
+				return this.block(header, node.body, depth, end(range[range.length-1]).line, end(node));
+			}
+
+			case 'ForGenericStatement': {
+				const header = `for ${this.list(node.variables, depth)} in ${this.list(node.iterators, depth)} do`;
+				return this.block(header, node.body, depth, end(node.iterators[node.iterators.length-1]).line, end(node));
+			}
+		}
+	}
+//#endregion
+
+//#region expressions
+	private list(nodes: ast.Expression[], depth: number) {
+		return nodes.map(it => this.expression(it, depth)).join(", ");
+	}
+
+	private function(node: ast.FunctionDeclaration, depth: number) {
+		const name = node.identifier ? " " + this.expression(node.identifier, depth) : "";
+		const parameters = node.parameters.map(it => 'Identifier' === it.type ? this.name(it) : "...").join(", ");
+		const header = `${node.isLocal ? "local " : ""}function${name}(${parameters})`;
+		const headerLine = node.parameters.length ? end(node.parameters[node.parameters.length-1]).line : start(node).line;
+		return this.block(header, node.body, depth, headerLine, end(node));
+	}
+
+	/**
+	 * the original text between two locations
+	 */
+	private between(from: Loc, to: Loc) {
+		if (from.line === to.line) return this.lines[from.line-1].slice(from.column, to.column);
+		return [
+			this.lines[from.line-1].slice(from.column),
+			...this.lines.slice(from.line, to.line-1),
+			this.lines[to.line-1].slice(0, to.column),
+		].join("\n");
+	}
+
+	/**
+	 * number of parenthesis wrapping a node in the original text
+	 */
+	private parenthesis(node: ast.Node) {
+		let before = 0;
+		let line = start(node).line-1;
+		let column = start(node).column;
+		for (;;) {
+			while (0 < column && /\s/.test(this.lines[line].charAt(column-1))) column--;
+			if (0 === column) {
+				if (0 === line) break;
+				column = this.lines[--line].length;
+				continue;
+			}
+			if ("(" !== this.lines[line].charAt(column-1)) break;
+			before++;
+			column--;
+		}
+
+		let after = 0;
+		line = end(node).line-1;
+		column = end(node).column;
+		while (after < before) {
+			while (column < this.lines[line].length && /\s/.test(this.lines[line].charAt(column))) column++;
+			if (this.lines[line].length === column) {
+				if (this.lines.length-1 === line) break;
+				line++;
+				column = 0;
+				continue;
+			}
+			if (")" !== this.lines[line].charAt(column)) break;
+			after++;
+			column++;
+		}
+
+		return after;
+	}
+
+	/**
+	 * @param owned parenthesis that belong to the syntax around the node (eg. a call)
+	 */
+	expression(node: ast.Expression, depth: number, owned = 0): string {
+		const count = Math.max(0, this.parenthesis(node) - owned);
+		const result = this.bare(node, depth);
+		return "(".repeat(count) + result + ")".repeat(count);
+	}
+
+	private bare(node: ast.Expression, depth: number): string {
+		switch (node.type) {
+			case 'FunctionDeclaration':
+				return this.function(node, depth);
+
+			case 'Identifier':
+				return this.name(node);
+
+			case 'StringLiteral':
+			case 'NumericLiteral':
+			case 'BooleanLiteral':
+			case 'NilLiteral':
+			case 'VarargLiteral':
+				return node.raw;
+
+			case 'TableConstructorExpression':
+				return this.table(node, depth);
+
+			case 'BinaryExpression':
+			case 'LogicalExpression': {
+				// the parser reads `!=` as `~=`
+				let operator: string = node.operator;
+				if ('~=' === operator && this.between(end(node.left), start(node.right)).includes("!=")) operator = "!=";
+				return `${this.expression(node.left, depth)} ${operator} ${this.expression(node.right, depth)}`;
+			}
+
+			case 'UnaryExpression': {
+				const argument = this.expression(node.argument, depth);
+				if ('not' === node.operator) return "not " + argument;
+				// eg. `- -a` must not become a comment
+				return node.operator + ("-" === node.operator && argument.startsWith("-") ? " " : "") + argument;
+			}
+
+			case 'MemberExpression':
+				return this.expression(node.base, depth) + node.indexer + this.name(node.identifier);
+
+			case 'IndexExpression':
+				return `${this.expression(node.base, depth)}[${this.expression(node.index, depth)}]`;
+
+			case 'CallExpression':
+				return `${this.expression(node.base, depth)}(${node.arguments.map(it => this.expression(it, depth, 1 === node.arguments.length ? 1 : 0)).join(", ")})`;
+
+			case 'TableCallExpression':
+			case 'StringCallExpression':
+				return this.expression(node.base, depth) + this.expression(node.argument, depth);
+		}
+	}
+
+	private field(node: ast.TableConstructorExpression['fields'][number], depth: number) {
+		switch (node.type) {
+			case 'TableKey':
+				return `[${this.expression(node.key, depth)}] = ${this.expression(node.value, depth)}`;
+			case 'TableKeyString':
+				return `${this.name(node.key)} = ${this.expression(node.value, depth)}`;
+			case 'TableValue':
+				return this.expression(node.value, depth);
+		}
+	}
+
+	/**
+	 * on a single line if it fits and has no comments, otherwise one field per line
+	 */
+	private table(node: ast.TableConstructorExpression, depth: number) {
+		if (!node.fields.length) return "{}";
+
+		this.inline++;
+		const single = `{${node.fields.map(it => this.field(it, depth)).join(", ")}}`;
+		this.inline--;
+
+		const fits = this.indent(depth).length + single.length <= this.options.lineWidth && !single.includes("\n");
+		if (this.inline || fits && !this.hasCommentBefore(end(node))) return single;
+
+		const indent = this.indent(depth+1);
+		const lines = ["{" + this.takeTrailing(start(node).line, start(node.fields[0]))];
+		node.fields.forEach((it, k) => {
+			while (this.hasCommentBefore(start(it))) lines.push(indent + this.comment(this.comments.shift()!));
+			const next = node.fields[k+1] ? start(node.fields[k+1]) : end(node);
+			lines.push(indent + this.field(it, depth+1) + "," + this.takeTrailing(end(it).line, next));
+		});
+		while (this.hasCommentBefore(end(node))) lines.push(indent + this.comment(this.comments.shift()!));
+		lines.push(this.indent(depth) + "}");
+		return lines.join("\n");
+	}
+//#endregion
+
+}
+
+/**
+ * formats the statements of the chunk which are within the spans of lines
+ * (eg. the `__lua__` sections), leaving anything else intact
+ *
+ * when a `range` is given, only the top-level statements it touches are
+ * formatted (whole, eg. a whole function even if the range is within it)
+ *
+ * @param chunk parsed from the `text` (with `#include`s as comments)
+ * @param spans 0-based lines, first and last included
+ */
+export function format(chunk: ast.Chunk, text: string, spans: { first: number, last: number }[], options: FormatOptions, range?: Range): TextEdit[] {
+	const lines = text.split("\n").map(it => it.replace(/\r$/, ""));
+	const edits: TextEdit[] = [];
+
+	spans.forEach(span => {
+		if (span.last < span.first) return;
+		const isIn = (node: ast.Node) => span.first <= start(node).line-1 && start(node).line-1 <= span.last;
+
+		let body = chunk.body.filter(isIn);
+		let first = span.first;
+		let last = span.last;
+
+		if (range) {
+			// the statements touching the range, or sharing a line with those
+			let touched = body.filter(it => start(it).line-1 <= range.end.line && range.start.line <= end(it).line-1);
+			if (!touched.length) return;
+			for (let stable = false; !stable;) {
+				first = start(touched[0]).line-1;
+				last = end(touched[touched.length-1]).line-1;
+				const more = body.filter(it => start(it).line-1 <= last && first <= end(it).line-1);
+				stable = more.length === touched.length;
+				touched = more;
+			}
+			body = touched;
+		}
+
+		edits.push({
+			range: {
+				start: { line: first, character: 0 },
+				end: { line: last, character: lines[last].length },
+			},
+			newText: print(chunk, lines, body, { first, last }, options),
+		});
+	});
+
+	return edits;
+}
+
+/**
+ * prints the statements (which are within the span of lines) with the
+ * comments of the span, only those accepted by `keep` if given
+ *
+ * @param lines of the text the chunk was parsed from
+ */
+export function print(chunk: ast.Chunk, lines: string[], body: ast.Statement[], span: { first: number, last: number }, options: FormatOptions, keep?: (comment: ast.Comment) => boolean) {
+	const { first, last } = span;
+	const comments = (chunk.comments ?? []).filter(it => first <= start(it).line-1 && start(it).line-1 <= last && (!keep || keep(it)));
+	const printer = new Printer(lines, comments, options);
+	return printer.statements(body, 0, first, { line: last+2, column: 0 }).join("\n");
+}
@@ -0,0 +1,145 @@
+import { ast } from 'pico8parse';
+
+import { isValidIdentifier } from '../util';
+import { print } from './format';
+
+export type MinifyOptions = {
+	// also rename the globals declared in the document
+	globals: boolean,
+	// also rename the table fields (every field with the same key alike)
+	fields: boolean,
+}
+
+export type MinifyResult = {
+	text: string,
+	// of the document only (ie. without the included files)
+	before: { tokens: number, characters: number },
+	after: { tokens: number, characters: number },
+	// what could not be done as asked
+	notes: string[],
+}
+
+// the functions PICO-8 calls by name, which can never be renamed
+export const CALLBACKS = ["_init", "_update", "_update60", "_draw"];
+
+// characters which are part of a name or a number
+const WORD = /[\w\u0080-\uffff]/;
+
+// operator characters which would read differently if doubled (eg. `- -a`)
+const DOUBLED = "-.[]<>=~/:^%";
+
+/**
+ * the shortest names first (`a`, `b`... `z`, `aa`, `ab`...), skipping
+ * keywords and those in `taken`
+ */
+export function* shortNames(taken: Set<string>) {
+	for (let length = 1;; length++) {
+		const count = 26 ** length;
+		for (let n = 0; n < count; n++) {
+			let name = "";
+			for (let k = 0, r = n; k < length; k++, r = Math.floor(r / 26))
+				name = String.fromCharCode(97 + r % 26) + name;
+			if (isValidIdentifier(name) && !taken.has(name)) yield name;
+		}
+	}
+}
+
+/**
+ * whether a space is needed between two characters for the
+ * code to still read the same
+ */
+function isSpaceNeeded(left: string, right: string) {
+	if (WORD.test(left) && WORD.test(right)) return true;
+	if (left === right && DOUBLED.includes(left)) return true;
+	// eg. `1 ..x` would read as a malformed number
+	return "." === right && /[\d.]/.test(left);
+}
+
+/**
+ * removes the whitespace between tokens which is not needed;
+ * line breaks are kept (once) as they end the shorthand forms, eg. `if (c) x`
+ */
+function compact(code: string) {
+	let result = "";
+	let k = 0;
+
+	while (k < code.length) {
+		const c = code.charAt(k);
+
+		// `#include` directives are kept as is
+		if ((!result || result.endsWith("\n")) && code.startsWith("#include", k)) {
+			const eol = code.indexOf("\n", k);
+			const to = -1 === eol ? code.length : eol;
+			result+= code.slice(k, to);
+			k = to;
+			continue;
+		}
+
+		if (/\s/.test(c)) {
+			const from = k;
+			while (k < code.length && /\s/.test(code.charAt(k))) k++;
+			const left = result.charAt(result.length-1);
+			const right = code.charAt(k);
+			if (!left || !right) continue;
+			if (code.slice(from, k).includes("\n")) result+= "\n";
+			else if (isSpaceNeeded(left, right)) result+= " ";
+			continue;
+		}
+
+		// strings are copied whole
+		if ('"' === c || "'" === c) {
+			let end = k+1;
+			while (end < code.length && c !== code.charAt(end) && "\n" !== code.charAt(end))
+				end+= "\\" === code.charAt(end) ? 2 : 1;
+			result+= code.slice(k, end+1);
+			k = end+1;
+			continue;
+		}
+		const long = /^\[(=*)\[/.exec(code.slice(k, k+64));
+		if (long) {
+			const close = code.indexOf("]" + long[1] + "]", k);
+			const end = -1 === close ? code.length : close + long[0].length;
+			result+= code.slice(k, end);
+			k = end;
+			continue;
+		}
+
+		result+= c;
+		k++;
+	}
+
+	return result;
+}
+
+/**
+ * prints the statements of the chunk which are within the spans of lines
+ * (eg. the `__lua__` sections) with as few characters as possible,
+ * leaving anything else intact
+ *
+ * comments are removed, but not the `#include` directives
+ *
+ * @param chunk parsed from the `text` (with `#include`s as comments)
+ * @param spans 0-based lines, first and last included
+ * @param names identifiers to rename, see `FormatOptions`
+ * @returns the whole new text
+ */
+export function minify(chunk: ast.Chunk, text: string, spans: { first: number, last: number }[], names: { [startPos: string]: string }) {
+	const lines = text.split("\n").map(it => it.replace(/\r$/, ""));
+	const result: string[] = [];
+
+	let next = 0;
+	spans.forEach(span => {
+		if (span.last < span.first) return;
+		const isIn = (node: ast.Node) => !!node.loc && span.first <= node.loc.start.line-1 && node.loc.start.line-1 <= span.last;
+
+		const body = chunk.body.filter(isIn);
+		const code = print(chunk, lines, body, span, { indent: "", lineWidth: Infinity, names }, it => it.raw.startsWith("--nclude"));
+
+		result.push(...lines.slice(next, span.first));
+		result.push(compact(code));
+		next = span.last+1;
+	});
+	result.push(...lines.slice(next));
+
+	return result.join("\n");
+}
@@ -0,0 +1,184 @@
+import { ast, parse as parseLua, Options as ParseOptions, SyntaxError as ParseError } from 'pico8parse';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver';
+import { Position } from 'vscode-languageserver-textdocument';
+
+// any more than that and the rest of the file is probably not worth it anyway
+const MAX_ATTEMPTS = 64;
+
+// when reported after some blocks were left unbalanced by a recovery, errors near
+// these are most likely a consequence of it (eg. an 'end' left without its 'function')
+const CLOSING_NEAR = ["end", "else", "elseif", "until"];
+
+// a line ending with any of these cannot be the end of a statement
+const UNFINISHED = /([-+*/%^<>=~,.([{&|]|\b(and|or|not))\s*$/;
+
+type Tab = { first: number, last: number, imbalance: number }
+
+/**
+ * splits the lines of a text into PICO-8 tabs, delimited by
+ * a `-->8` comment or any section header (eg. `__lua__`)
+ *
+ * the delimiting lines themselves are not part of any tab, and
+ * when `sectioned`, only the lines of `__lua__` sections are
+ */
+function splitTabs(lines: string[], sectioned: boolean) {
+	const tabs: Tab[] = [];
+	let first = 0;
+	let inLua = !sectioned;
+	lines.forEach((line, k) => {
+		const header = /^__([\w:]+)__\s*$/.exec(line);
+		if (header || line.startsWith("-->8")) {
+			if (inLua && first < k) tabs.push({ first, last: k-1, imbalance: 0 });
+			if (header && sectioned) inLua = 'lua' === header[1];
+			first = k+1;
+		}
+	});
+	if (inLua && first < lines.length) tabs.push({ first, last: lines.length-1, imbalance: 0 });
+	return tabs;
+}
+
+/**
+ * replace every character of the lines `first` to `last` (included)
+ * with spaces so that every other location in the text stays the same
+ *
+ * the `tab`'s imbalance is updated with the number of blocks that were
+ * opened (positive) or closed (negative) by what was blanked out
+ *
+ * @returns whether anything changed
+ */
+function blank(lines: string[], tab: Tab, first: number, last: number) {
+	let changed = false;
+	for (let k = first; k <= last; k++) {
+		if (lines[k].trim()) {
+			const count = (re: RegExp) => lines[k].match(re)?.length ?? 0;
+			tab.imbalance+= count(/\b(function|do|then|repeat)\b/g) - count(/\belseif\b/g) - count(/\b(end|until)\b/g);
+			lines[k] = lines[k].replace(/./g, " ");
+			changed = true;
+		}
+	}
+	return changed;
+}
+
+function positionAt(lines: string[], index: number): Position {
+	let line = 0;
+	while (line < lines.length-1 && lines[line].length < index) {
+		index-= lines[line].length + 1;
+		line++;
+	}
+	return { line, character: index };
+}
+
+/**
+ * the text with every tab but `only` blanked out (but not the
+ * lines out of any tab, as for example the sections headers)
+ */
+function isolate(lines: string[], tabs: Tab[], only: Tab) {
+	return lines
+		.map((line, k) => only.first <= k && k <= only.last || !tabs.some(it => it.first <= k && k <= it.last) ? line : "")
+		.join("\n");
+}
+
+/**
+ * tries to parse (only the tab `only` if specified) until it succeeds,
+ * blanking out the lines that cause errors along the way; errors are
+ * reported into `diagnostics`
+ *
+ * @returns the AST if it ends up succeeding
+ *
+ * @throws anything that is not a `ParseError`
+ */
+function recover(lines: string[], tabs: Tab[], options: Partial<ParseOptions>, diagnostics: Diagnostic[], only?: Tab) {
+	for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+		const text = only ? isolate(lines, tabs, only) : lines.join("\n");
+		try {
+			return parseLua(text, options);
+		} catch (err) {
+			if (!(err instanceof ParseError)) throw err;
+
+			const near = /near '(.*)'$/.exec(err.message)?.[1];
+			const eof = '<eof>' === near || text.length <= err.index;
+			const line = err.line-1;
+			const at = positionAt(text.split("\n"), err.index);
+
+			// with an unexpected end of file, the culprit cannot be located,
+			// so the last tab with some code left is blamed
+			const tab = only ?? (eof
+				? tabs.filter(it => lines.slice(it.first, it.last+1).some(line => line.trim())).pop()
+				: tabs.find(it => it.first <= line && line <= it.last)
+			);
+
+			const isArtifact = !!tab && (eof
+				? tab.imbalance < 0
+				: 0 < tab.imbalance && CLOSING_NEAR.includes(near ?? "")
+			);
+			if (!isArtifact) {
+				// an unexpected end of file is reported at the end of the tab's code
+				let start = at;
+				if (eof && tab) {
+					let last = tab.last;
+					while (tab.first < last && !lines[last].trim()) last--;
+					start = { line: last, character: lines[last].trimEnd().length };
+				}
+				const length = !near || eof ? 0 : Math.min(near.length, (lines[start.line]?.length ?? 0) - start.character);
+				diagnostics.push({
+					message: `${err.name}: ${err.message.replace(/^\[\d+:\d+\] /, "")}`,
+					range: {
+						start,
+						end: { line: start.line, character: start.character + length },
+					},
+					severity: DiagnosticSeverity.Error,
+					code: 'syntax',
+				});
+			}
+
+			if (!tab) return;
+
+			// when the error is at the very beginning of its line, the statement
+			// from the previous line may have been left unfinished (eg. `a = b +`)
+			let culprit = line;
+			if (!eof && !lines[line].slice(0, at.character).trim()) {
+				let previous = line-1;
+				while (tab.first <= previous && !lines[previous].trim()) previous--;
+				if (tab.first <= previous && UNFINISHED.test(lines[previous])) culprit = previous;
+			}
+
+			// only the line if possible, otherwise the whole tab
+			if (eof || !blank(lines, tab, culprit, culprit))
+				if (!blank(lines, tab, tab.first, tab.last))
+					return;
+		}
+	}
+}
+
+/**
+ * parses `text` and tries to recover from syntax errors by blanking out
+ * the offending line (or the whole PICO-8 tab when the problem could not
+ * be narrowed down, eg. for an unclosed block) before trying again
+ *
+ * each tab that fails is first recovered on its own so that errors in
+ * one tab cannot cascade into the next ones; errors that seem to be
+ * consequences of a previous recovery are not reported
+ *
+ * @returns the AST of whatever could be parsed, and the syntax errors as diagnostics
+ *
+ * @throws anything that is not a `ParseError`
+ */
+export function parseRecovering(text: string, options: Partial<ParseOptions>) {
+	const lines = text.split("\n");
+	const diagnostics: Diagnostic[] = [];
+
+	try {
+		return { chunk: parseLua(text, options), diagnostics };
+	} catch (err) {
+		if (!(err instanceof ParseError)) throw err;
+	}
+
+	const tabs = splitTabs(lines, !options.ignoreStrictP8FileFormat);
+	tabs.forEach(tab => recover(lines, tabs, options, diagnostics, tab));
+
+	const chunk = recover(lines, tabs, options, diagnostics);
+	if (chunk) return { chunk, diagnostics };
+
+	console.log("Recovering failed, giving up on the AST");
+	return { chunk: { type: 'Chunk', body: [] } as ast.Chunk, diagnostics };
+}
@@ -0,0 +1,63 @@
+import { SemanticTokensLegend } from 'vscode-languageserver';
+
+import { LUTFields, LUTVariables } from './explore';
+import { isLuaFunction, isLuaTable } from './typing';
+import { rangeEquals } from '../util';
+
+const tokenTypes = ['variable', 'parameter', 'property', 'function', 'method', 'struct'] as const;
+const tokenModifiers = ['declaration', 'modification', 'defaultLibrary', 'deprecated', 'global', 'local'] as const;
+
+type TokenType = typeof tokenTypes[number];
+type TokenModifier = typeof tokenModifiers[number];
+
+export const legend: SemanticTokensLegend = {
+	tokenTypes: [...tokenTypes],
+	tokenModifiers: [...tokenModifiers],
+};
+
+/**
+ * classifies an entry of the variable LUT (ie. an identifier or a table key)
+ * as a semantic token, from the type the exploration settled on
+ *
+ * the precedence for the token type is as follow:
+ * ```plaintext
+ * function typed: 'function' (or 'method' for a table field)
+ * table typed: 'struct'
+ * otherwise: 'parameter', 'property' or 'variable'
+ * ```
+ *
+ * returns undefined for entries which are neither (eg. labels)
+ *
+ * @returns `[tokenType, tokenModifiers]` as indices into the `legend`
+ */
+export function classify(entry: LUTVariables[string], lutFields: LUTFields): [type: number, modifiers: number] | undefined {
+	const { variable, field, table } = entry;
+	if (!variable && !field) return;
+
+	let type: TokenType = field ? 'property' : variable?.parameter ? 'parameter' : 'variable';
+	if (isLuaFunction(entry.type)) type = field ? 'method' : 'function';
+	else if (isLuaTable(entry.type)) type = 'struct';
+
+	const modifiers: TokenModifier[] = [];
+
+	if (variable) {
+		modifiers.push('global' === entry.scope.tag ? 'global' : 'local');
+		if ('api' === variable.predefined) modifiers.push('defaultLibrary');
+		if (variable.deprecated) modifiers.push('deprecated');
+	}
+
+	// a write is a declaration if it is the first one (ie. the last in the list)
+	const occurrences = variable ?? (table && lutFields.get(table)?.[entry.name]);
+	if (occurrences) {
+		const k = occurrences.ranges.findIndex(it => rangeEquals(it, entry.range));
+		if (-1 < k && occurrences.writes[k]) {
+			const declaration = occurrences.ranges[occurrences.writes.lastIndexOf(true)];
+			modifiers.push(rangeEquals(declaration, entry.range) ? 'declaration' : 'modification');
+		}
+	}
+
+	return [
+		tokenTypes.indexOf(type),
+		modifiers.reduce((acc, cur) => acc | 1 << tokenModifiers.indexOf(cur), 0),
+	];
+}
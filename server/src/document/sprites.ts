@@ -0,0 +1,145 @@
+import { deflateSync } from 'zlib';
+
+import { Cartridge } from './cartridge';
+
+// the 16 colors of the PICO-8 palette, as RGB
+const PALETTE = [
+	0x000000, 0x1d2b53, 0x7e2553, 0x008751,
+	0xab5236, 0x5f574f, 0xc2c3c7, 0xfff1e8,
+	0xff004d, 0xffa300, 0xffec27, 0x00e436,
+	0x29adff, 0x83769c, 0xff77a8, 0xffccaa,
+];
+
+// previews are scaled up to be about this size (in pixels)
+const PREVIEW_SIZE = 64;
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(bytes: Buffer) {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ c >>> 1 : c >>> 1;
+			crcTable[n] = c;
+		}
+	}
+	let crc = 0xffffffff;
+	for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ crc >>> 8;
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer) {
+	const length = Buffer.alloc(4);
+	length.writeUInt32BE(data.length);
+	const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+	const crc = Buffer.alloc(4);
+	crc.writeUInt32BE(crc32(body));
+	return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * encodes an image as an indexed PNG with the PICO-8 palette
+ *
+ * @param pixels color of each pixel, row by row
+ */
+function encodePng(width: number, height: number, pixels: Uint8Array) {
+	const header = Buffer.alloc(13);
+	header.writeUInt32BE(width, 0);
+	header.writeUInt32BE(height, 4);
+	header.writeUInt8(8, 8); // bit depth
+	header.writeUInt8(3, 9); // color type: indexed
+
+	const palette = Buffer.alloc(3 * PALETTE.length);
+	PALETTE.forEach((it, k) => palette.writeUIntBE(it, 3*k, 3));
+
+	// each row is prefixed with its filter type (0: none)
+	const raw = Buffer.alloc((width + 1) * height);
+	for (let y = 0; y < height; y++)
+		raw.set(pixels.subarray(y * width, (y+1) * width), y * (width+1) + 1);
+
+	return Buffer.concat([
+		Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+		chunk('IHDR', header),
+		chunk('PLTE', palette),
+		chunk('IDAT', deflateSync(raw)),
+		chunk('IEND', Buffer.alloc(0)),
+	]);
+}
+
+/**
+ * markdown image of a region of the sprite sheet (clipped to it),
+ * scaled up to be visible in a hover
+ */
+function representRegion(cartridge: Cartridge, alt: string, x: number, y: number, w: number, h: number) {
+	x = Math.max(0, Math.floor(x));
+	y = Math.max(0, Math.floor(y));
+	w = Math.min(128 - x, Math.ceil(w));
+	h = Math.min(128 - y, Math.ceil(h));
+	if (w < 1 || h < 1) return;
+
+	const scale = Math.max(1, Math.floor(PREVIEW_SIZE / Math.max(w, h)));
+	const pixels = new Uint8Array(w*scale * h*scale);
+	for (let j = 0; j < h*scale; j++)
+		for (let i = 0; i < w*scale; i++)
+			pixels[j * w*scale + i] = cartridge.gfx[(y + Math.floor(j/scale)) * 128 + x + Math.floor(i/scale)] & 15;
+
+	const data = encodePng(w*scale, h*scale, pixels).toString('base64');
+	return `![${alt}](data:image/png;base64,${data})`;
+}
+
+function representFlags(cartridge: Cartridge, n: number) {
+	const flags = cartridge.gff[n];
+	const set = [0, 1, 2, 3, 4, 5, 6, 7].filter(it => flags & 1 << it);
+	return `flags: \`0b${flags.toString(2).padStart(8, '0')}\`` + (set.length ? ` (${set.join(", ")})` : "");
+}
+
+/**
+ * for a call to one of the API's sprite functions with constant arguments,
+ * represents the sprite(s) concerned from the cartridge's `__gfx__` and `__gff__`
+ *
+ * ```plaintext
+ * spr(n, x, y, [w, h])
+ * sspr(sx, sy, sw, sh, ...)
+ * sget(x, y)
+ * fget(n, [f])
+ * ```
+ *
+ * @returns the markdown to append to the hover, if anything to show
+ */
+export function representSpriteHover(cartridge: Cartridge, name: string, args: (number | undefined)[]) {
+	switch (name) {
+		case 'spr':
+		case 'fget': {
+			if (undefined === args[0]) return;
+			const n = Math.floor(args[0]);
+			if (n < 0 || 255 < n) return;
+			const w = 'spr' === name ? args[3] ?? 1 : 1;
+			const h = 'spr' === name ? args[4] ?? 1 : 1;
+
+			let text = `sprite ${n}, ${representFlags(cartridge, n)}`;
+			const f = 'fget' === name ? args[1] : undefined;
+			if (undefined !== f && 0 <= f && f < 8) text+= `\n\nflag ${f}: ${!!(cartridge.gff[n] & 1 << f)}`;
+
+			const image = representRegion(cartridge, `sprite ${n}`, n % 16 * 8, Math.floor(n / 16) * 8, w*8, h*8);
+			return [image, text].filter(it => it).join("\n\n");
+		}
+
+		case 'sspr': {
+			const [sx, sy, sw, sh] = args;
+			if (undefined === sx || undefined === sy || undefined === sw || undefined === sh) return;
+
+			return representRegion(cartridge, `region ${sx}, ${sy}, ${sw}, ${sh}`, sx, sy, sw, sh);
+		}
+
+		case 'sget': {
+			const [x, y] = args;
+			if (undefined === x || undefined === y || x < 0 || 128 <= x || y < 0 || 128 <= y) return;
+
+			const n = Math.floor(y / 8) * 16 + Math.floor(x / 8);
+			const color = cartridge.gfx[Math.floor(y) * 128 + Math.floor(x)];
+			const image = representRegion(cartridge, `sprite ${n}`, n % 16 * 8, Math.floor(n / 16) * 8, 8, 8);
+			return [image, `color ${color} (in sprite ${n})`].filter(it => it).join("\n\n");
+		}
+	}
+}
@@ -7,6 +7,9 @@ export type LuaNumber = 'number'
 export type LuaBoolean = 'boolean'
 export type LuaString = 'string'
 export type LuaAny = 'any'
+// not known (yet), eg. a parameter without doc; unlike `any` it says nothing
+// about the value, so it is never the reason for a diagnostic
+export type LuaUnknown = 'unknown'
 
 export type LuaTypedKey = { type: LuaNumber | LuaBoolean | LuaString }
 export type LuaKey
@@ -25,6 +28,8 @@ export type LuaTable = {
 	true?: LuaType,
 	false?: LuaType,
 	typed?: { [type in LuaTypedKey['type']]?: LuaType }
+	// as set with `setmetatable`, its `__index` gives the fields the table lacks
+	metatable?: LuaTable
 }
 
 export function isLuaFunction(type?: LuaType): type is LuaFunction {
@@ -35,13 +40,23 @@ export type LuaFunction = {
 	parameters: { name: string, type: LuaType }[],
 	vararg?: LuaType,
 	return: LuaType,
+	// names of its type parameters, eg. `T` for `<T>(v: T) -> T`
+	generics?: string[],
 }
 
 export function isLuaTable(type?: LuaType): type is LuaTable {
 	return !!(type && (type as LuaTable).entries);
 }
 
-//export type LuaTypeAlias = { alias: string, type: LuaType }
+// a type named with a `type Name = ...` doc comment, see `alias()`
+export type LuaTypeAlias = { alias: string }
+
+// a type parameter of a function, only known at a call (see `instantiate()`)
+export type LuaTypeParameter = { generic: string }
+
+export function isLuaTypeParameter(type?: LuaType): type is LuaTypeParameter {
+	return !!(type && 'string' !== typeof type && 'generic' in type);
+}
 
 export type LuaType
 	= LuaNil
@@ -52,10 +67,11 @@ export type LuaType
 	| LuaFunction
 	| LuaType[]
 	| { or: [LuaType, LuaType] }
-	//| { and: [LuaType, LuaType] }
-	//| { not: LuaType }
-	//| LuaTypeAlias
+	| { and: [LuaType, LuaType] }
+	| { not: LuaType }
+	| LuaTypeParameter
 	| LuaAny
+	| LuaUnknown
 
 export type LuaVariable = {
 	// every type that were assigned to it, last in first
@@ -64,8 +80,25 @@ export type LuaVariable = {
 	ranges: Range[],
 	// corresponding scopes
 	scopes: LuaScope[],
+	// whether the corresponding range assigns to it (as opposed to only reading it)
+	writes: boolean[],
 	// whatever
 	doc?: LuaDoc,
+	// where it was pre-defined from, if not declared in the document
+	predefined?: 'api' | 'settings',
+	// whether it was declared as a function's parameter
+	parameter?: boolean,
+	// whether it is declared without appearing in the code (ie. `self` in a method)
+	implicit?: boolean,
+	// whether it should not be used anymore (eg. from the API)
+	deprecated?: boolean,
+	// what to use instead, if deprecated
+	replacement?: string,
+	// versions of PICO-8 it was added in and removed from (for the API)
+	since?: string,
+	until?: string,
+	// where it was assigned to, if declared in an included file
+	included?: { uri: string, ranges: Range[] },
 }
 
 export type LuaScope = {
@@ -79,16 +112,96 @@ export type LuaDoc = {
 	text: string,
 }
 
-// export function isLuaTypeAlias(type?: LuaType): type is LuaTypeAlias {
-// 	return !!(type && (type as LuaTypeAlias).alias);
-// }
+/**
+ * the table which has the field `key`: the table itself or else, following the
+ * `__index` of its metatable (when it is a table), the one it inherits it from
+ */
+export function fieldOwner(table: LuaTable, key: string, depth?: number): LuaTable | undefined {
+	if (Object.prototype.hasOwnProperty.call(table.entries, key)) return table;
+
+	const index = table.metatable && fieldOwner(table.metatable, '__index', 0)?.entries.__index;
+	if (isLuaTable(index) && (depth ?? 0) < MAX_DEPTH)
+		return fieldOwner(index, key, (depth ?? 0) + 1);
+}
+
+/**
+ * every fields of the table, including those it inherits (see `fieldOwner`)
+ */
+export function fieldsOf(table: LuaTable, depth?: number): LuaTable['entries'] {
+	const index = table.metatable && fieldOwner(table.metatable, '__index', 0)?.entries.__index;
+	const inherited = isLuaTable(index) && (depth ?? 0) < MAX_DEPTH
+		? fieldsOf(index, (depth ?? 0) + 1)
+		: {};
+	return { ...inherited, ...table.entries };
+}
+
+/**
+ * whether nothing can be told about a type: `unknown` or a union with it
+ * (eg. `unknown | number` could be anything), or a type parameter
+ */
+export function isUnknown(type: LuaType): boolean {
+	return 'unknown' === type || isLuaTypeParameter(type)
+		|| !!flattenBinaryTree<'or', LuaType>(type as { or: [LuaType, LuaType] }, 'or')?.some(isUnknown);
+}
+
+export function isLuaTypeAlias(type?: LuaType): type is LuaType & LuaTypeAlias {
+	return !!(type && 'string' !== typeof type && 'alias' in type);
+}
+
+/**
+ * whether the type is of the given `kind` (a union, intersection or
+ * negation) and represented as such, ie. not by an alias name
+ */
+function isComposite(type: LuaType, kind: 'or' | 'and' | 'not') {
+	return Object.prototype.hasOwnProperty.call(type, kind) && !isLuaTypeAlias(type);
+}
+
+/**
+ * the table a field should be looked up in: the type itself if a table, or
+ * (for an intersection, eg. `Entity & Drawable`) the first table with
+ * a `key` entry, or else the first table at all
+ * 
+ * a union of a table with `unknown` (eg. `o or {}`) is looked up as the table
+ */
+export function intersectedTable(type: LuaType, key?: string): LuaTable | undefined {
+	if (isLuaTable(type)) return type;
+	if (Object.prototype.hasOwnProperty.call(type, 'or')) {
+		const known = flattenBinaryTree<'or', LuaType>(type as { or: [LuaType, LuaType] }, 'or')!
+			.filter(it => 'unknown' !== it);
+		return 1 === known.length ? intersectedTable(known[0], key) : undefined;
+	}
+	if (!Object.prototype.hasOwnProperty.call(type, 'and')) return;
+
+	const tables = flattenBinaryTree<'and', LuaType>(type as { and: [LuaType, LuaType] }, 'and')!
+		.flatMap(it => {
+			const table = intersectedTable(it, key);
+			return table ? [table] : [];
+		});
+	return tables.find(it => undefined !== key && fieldOwner(it, key)) ?? tables[0];
+}
+
+/**
+ * names a type: the result is the type itself (a copy) marked with the
+ * name, so that it is used as any other type but represented by its name
+ *
+ * a copy is made so what the exploration adds to it (eg. entries to a table)
+ * does not affect the declaration of the alias; simple types (eg. `number`)
+ * cannot be marked, so an alias to one is that simple type
+ */
+export function alias(name: string, type: LuaType): LuaType {
+	if ('string' === typeof type) return type;
+	if (Array.isArray(type)) return Object.assign([...type], { alias: name });
+	if (isLuaTable(type)) return { ...type, entries: { ...type.entries }, sequence: { ...type.sequence }, alias: name } as LuaTable;
+	if (isLuaFunction(type)) return { ...type, parameters: [...type.parameters], alias: name } as LuaFunction;
+	return Object.assign({ ...type }, { alias: name });
+}
 
 const MAX_DEPTH = 5;
 /**
  * ie. `toString()`
  * 
  * ### simple types
- * `'nil', 'number', 'boolean', 'string'`
+ * `'nil', 'number', 'boolean', 'string', 'any', 'unknown'`
  * 
  * ### arrays (eg. result of function)
  * `[type1, type2, ...]`
@@ -96,6 +209,9 @@ const MAX_DEPTH = 5;
  * ### function
  * `(param1: typeP1, ...) -> typeRet`
  * parentheses are added around a typeRet if it is a union or intersection
+ * (otherwise `() -> a | b` reads as `(() -> a) | b`)
+ * 
+ * with type parameters: `<T1, ...>(param1: T1, ...) -> typeRet`
  * 
  * ### table
  * `{ key1: typeK1, ["complex key2"]: typeK2, typeNoKey3, ... }`
@@ -104,57 +220,69 @@ const MAX_DEPTH = 5;
  * `typeA | typeB`
  * parentheses are never added
  * 
- * // ### intersection
- * // `typeA & typeB`
- * // parentheses are added around a type if it is a union
+ * ### intersection
+ * `typeA & typeB`
+ * parentheses are added around a type if it is a union
  * 
- * // ### negation
- * // `~type`
- * // parentheses are added around a type if it is a union or intersection
+ * ### negation
+ * `~type`
+ * parentheses are added around a type if it is a union or intersection
+ * 
+ * ### alias
+ * `Name` (see `alias()`)
+ * 
+ * ### type parameter
+ * `T` (see `instantiate()`)
  * 
  * ### unknown
  * possible unexpected result: ```"unknown`"+type+"`type"``` (subject to change)
  */
-export function represent(type: LuaType, depth?: number, typeFrom?: LuaType): string {
+export function represent(type: LuaType, depth?: number, ancestors?: LuaType[]): string {
 	if ('string' === typeof type) return type;
+	if (isLuaTypeAlias(type)) return type.alias;
+	if (isLuaTypeParameter(type)) return type.generic;
 
-	if (typeFrom === type) return '*circular*';
+	if (ancestors?.includes(type)) return '*circular*';
 	if (undefined === depth) return represent(type, 1); // for the typing :/
 	if (MAX_DEPTH < depth) return '*...*';
 
+	// the types this one is within, to spot those which contain themselves
+	const lineage = [...ancestors ?? [], type];
+
 	if (Array.isArray(type)) {
 		const list = type
-			.map(it => represent(it, depth+1, type))
+			.map(it => represent(it, depth+1, lineage))
 			.join(", ");
 		return `[${list}]`;
 	}
 
 	if (isLuaFunction(type)) {
 		const params = type.parameters
-			.map(it => `${it.name}: ${represent(it.type, depth+1, type)}`)
+			.map(it => `${it.name}: ${represent(it.type, depth+1, lineage)}`)
 			.join(", ");
-		const vararg = type.vararg ? (params && ", ") + "...: " + represent(type.vararg, depth+1, type) : "";
+		const vararg = type.vararg ? (params && ", ") + "...: " + represent(type.vararg, depth+1, lineage) : "";
 		// add "()" around type such as "a | b" to avoid returning
 		// "() -> a | b" which is equivalent to "(() -> a) | b"
-		const retComplex = Object.prototype.hasOwnProperty.call(type.return, 'or'); // || Object.prototype.hasOwnProperty.call(type.return, 'and');
-		const ret = retComplex ? `(${represent(type.return, depth+1, type)})` : represent(type.return, depth+1, type);
-		return `(${params}${vararg}) -> ${ret}`;
+		const retComplex = isComposite(type.return, 'or') || isComposite(type.return, 'and');
+		const ret = retComplex ? `(${represent(type.return, depth+1, lineage)})` : represent(type.return, depth+1, lineage);
+		const generics = type.generics ? `<${type.generics.join(", ")}>` : "";
+		return `${generics}(${params}${vararg}) -> ${ret}`;
 	}
 
 	if (isLuaTable(type)) {
 		const entries = Object
 			.entries(type.entries)
-			.map(([key, _type]) => `${/^\d|\W/.test(key) || !key ? `["${escapeLuaTableStringKey(key)}"]` : key}: ${represent(_type, depth+1, type)}`)
+			.map(([key, _type]) => `${/^\d|\W/.test(key) || !key ? `["${escapeLuaTableStringKey(key)}"]` : key}: ${represent(_type, depth+1, lineage)}`)
 			.join(", ");
 		const sequence = Object
 			.entries(type.sequence)
-			.map(([key, _type]) => `[${key}]: ${represent(_type, depth+1, type)}`)
+			.map(([key, _type]) => `[${key}]: ${represent(_type, depth+1, lineage)}`)
 			.join(", ");
-		const true_ = type.true ? `[true]: ${represent(type.true, depth+1, type)}` : "";
-		const false_ = type.false ? `[false]: ${represent(type.false, depth+1, type)}` : "";
+		const true_ = type.true ? `[true]: ${represent(type.true, depth+1, lineage)}` : "";
+		const false_ = type.false ? `[false]: ${represent(type.false, depth+1, lineage)}` : "";
 		const typed = !type.typed ? "" : Object
 			.entries(type.typed)
-			.flatMap(([keyType, _type]) => !_type ? [] : [`[: ${keyType}]: ${represent(_type, depth+1, type)}`]) // YYY: label (?)
+			.flatMap(([keyType, _type]) => !_type ? [] : [`[: ${keyType}]: ${represent(_type, depth+1, lineage)}`]) // YYY: label (?)
 			.join(", ");
 		const full = [typed, true_, false_, entries, sequence]
 			.filter(_=>_)
@@ -164,24 +292,24 @@ export function represent(type: LuaType, depth?: number, typeFrom?: LuaType): st
 
 	if (Object.prototype.hasOwnProperty.call(type, 'or')) {
 		const [a, b] = (type as { or: [LuaType, LuaType] }).or;
-		const reprA = represent(a, depth+1, type);
-		const reprB = represent(b, depth+1, type);
+		const reprA = represent(a, depth+1, lineage);
+		const reprB = represent(b, depth+1, lineage);
 		return reprA + " | " + reprB;
 	}
 
-	// if (Object.prototype.hasOwnProperty.call(type, 'and')) {
-	// 	const [a, b] = (type as { and: [LuaType, LuaType] }).and;
-	// 	const reprA = Object.prototype.hasOwnProperty.call(a, 'or') ? `(${represent(a)})` : represent(a);
-	// 	const reprB = Object.prototype.hasOwnProperty.call(b, 'or') ? `(${represent(b)})` : represent(b);
-	// 	return reprA + " & " + reprB;
-	// }
+	if (Object.prototype.hasOwnProperty.call(type, 'and')) {
+		const [a, b] = (type as { and: [LuaType, LuaType] }).and;
+		const reprA = isComposite(a, 'or') ? `(${represent(a, depth+1, lineage)})` : represent(a, depth+1, lineage);
+		const reprB = isComposite(b, 'or') ? `(${represent(b, depth+1, lineage)})` : represent(b, depth+1, lineage);
+		return reprA + " & " + reprB;
+	}
 
-	// if (Object.prototype.hasOwnProperty.call(type, 'not')) {
-	// 	const c = (type as { not: [LuaType, LuaType] }).not;
-	// 	const retComplex = Object.prototype.hasOwnProperty.call(c, 'or') || Object.prototype.hasOwnProperty.call(c, 'and');
-	// 	const reprC = retComplex ? `(${represent(c)})` : represent(c);
-	// 	return "~" + reprC;
-	// }
+	if (Object.prototype.hasOwnProperty.call(type, 'not')) {
+		const c = (type as { not: LuaType }).not;
+		const complex = isComposite(c, 'or') || isComposite(c, 'and');
+		const reprC = complex ? `(${represent(c, depth+1, lineage)})` : represent(c, depth+1, lineage);
+		return "~" + reprC;
+	}
 
 	return "unknown`"+type+"`type";
 }
@@ -191,39 +319,45 @@ export function represent(type: LuaType, depth?: number, typeFrom?: LuaType): st
  * 
  * reverses `represent()` above, see its doc comment
  * 
+ * @param aliases to find the type named by an alias, if any
+ * 
  * @throws `SyntaxError`, `TypeError`
  */
-export function parse(repr: string): LuaType {
+export function parse(repr: string, aliases?: (name: string) => LuaType | undefined): LuaType {
 	repr = repr.trim();
-	if ('nil' === repr || 'number' === repr || 'boolean' === repr || 'string' === repr)
+	if ('nil' === repr || 'number' === repr || 'boolean' === repr || 'string' === repr || 'any' === repr || 'unknown' === repr)
 		return repr;
 	const character = repr.charAt(0);
 
+	// handles "Name" (an alias, or a type parameter)
+	const aliased = /^[A-Za-z_]\w*$/.test(repr) ? aliases?.(repr) : undefined;
+	if (aliased) return isLuaTypeParameter(aliased) ? aliased : alias(repr, aliased);
+
 	// handles "(type_repr)"
 	if ("(" === character && ")" === repr.charAt(repr.length-1)) {
 		const [start, end] = delimitSubstring(repr, "(", ")");
 		if (repr.length-1 === end)
-			return parse(repr.substring(start, end));
+			return parse(repr.substring(start, end), aliases);
 	}
 
 	// handles "type_repr_a | type_repr_b"
 	if (repr.includes("|")) {
 		const list = splitCarefully(repr, "|");
 		if (1 < list.length)
-			return buildBinaryTree(list.map(parse), 'or')!;
+			return buildBinaryTree(list.map(it => parse(it, aliases)), 'or')!;
 	}
 
-	// // handles "type_repr_a & type_repr_b"
-	// if (repr.includes("&")) {
-	// 	const list = splitCarefully(repr, "&");
-	// 	if (1 < list.length)
-	// 		return buildBinaryTree(list.map(parse), 'and')!;
-	// }
+	// handles "type_repr_a & type_repr_b"
+	if (repr.includes("&")) {
+		const list = splitCarefully(repr, "&");
+		if (1 < list.length)
+			return buildBinaryTree(list.map(it => parse(it, aliases)), 'and')!;
+	}
 
-	// // handles "~type_repr"
-	// if ("~" === character) {
-	// 	return { not: parse(repr.substr(1)) };
-	// }
+	// handles "~type_repr"
+	if ("~" === character) {
+		return { not: parse(repr.substr(1), aliases) };
+	}
 
 	// handles "{ key: type_repr_1, [expr]: type_repr_2, type_repr_3, ... }"
 	if ("{" === character && "}" === repr.charAt(repr.length-1)) {
@@ -234,10 +368,11 @@ export function parse(repr: string): LuaType {
 			sequence: {},
 		};
 		inner.forEach(it => {
+			if (!it.trim()) return; // ie. `{}`
 			const keyOrType_typeOrEmpty = splitCarefully(it, ":", 1);
 			if (keyOrType_typeOrEmpty[1]) {
 				let key = keyOrType_typeOrEmpty[0].trim();
-				const type = parse(keyOrType_typeOrEmpty[1]);
+				const type = parse(keyOrType_typeOrEmpty[1], aliases);
 				if ("[" === key.charAt(0) && "]" === key.charAt(key.length-1)) {
 					// possible cases:
 					// [true] / [false]
@@ -258,17 +393,17 @@ export function parse(repr: string): LuaType {
 						const found = expr.indexOf(":");
 						if (found < 0) throw new SyntaxError(`Expected a table typed-key description near ${key}`);
 						//const label = it.substring(0, found).trim();
-						const keyType = parse(it.substring(found + 1));
+						const keyType = parse(expr.substring(found + 1), aliases);
 						if ('string' === keyType || 'number' === keyType || 'boolean' === keyType) {
 							if (!tableType.typed) tableType.typed = {};
 							tableType.typed[keyType] = type;
 							return; // ie. continue;
 						}
-						throw new TypeError(`Invalid typed ${it.substring(found + 1)} for a table typed-key`);
+						throw new TypeError(`Invalid typed ${expr.substring(found + 1)} for a table typed-key`);
 					}
 				}
 				tableType.entries[key] = type;
-			} else tableType.sequence[keyCounting++] = parse(it);
+			} else tableType.sequence[keyCounting++] = parse(it, aliases);
 		});
 		return tableType;
 	}
@@ -276,16 +411,28 @@ export function parse(repr: string): LuaType {
 	// handles "[type_repr_a, type_repr_b]"
 	if ("[" === character && "]" === repr.charAt(repr.length-1)) {
 		const inner = splitCarefully(repr.substr(1, repr.length-2), ",");
-		return inner.map(parse);
+		return inner.map(it => parse(it, aliases));
 	}
 
-	// handles "(param: type_repr, ...) -> type_repr"
+	// handles "<T, ...>(param: type_repr, ...) -> type_repr"
 	if (repr.includes("->")) {
+		let generics: string[] | undefined;
+		if ("<" === character) {
+			const [genericStart, genericEnd] = delimitSubstring(repr, "<", ">");
+			generics = repr.substring(genericStart, genericEnd).split(",").map(it => it.trim());
+			generics.forEach(it => {
+				if (!/^[A-Za-z_]\w*$/.test(it)) throw new SyntaxError(`Expected a type parameter name, got '${it}'`);
+			});
+			// within the function, the type parameters hide aliases of the same names
+			const outer = aliases;
+			aliases = name => generics!.includes(name) ? { generic: name } : outer?.(name);
+		}
+
 		const [paramStart, paramEnd] = delimitSubstring(repr, "(", ")");
 		const params = splitCarefully(repr.substring(paramStart, paramEnd), ",");
 
 		const arrow = repr.substr(paramEnd).indexOf("->");
-		const rets = parse(repr.substr(paramEnd + arrow + 2));
+		const rets = parse(repr.substr(paramEnd + arrow + 2), aliases);
 
 		let varargType: LuaType | undefined;
 
@@ -294,7 +441,7 @@ export function parse(repr: string): LuaType {
 				.flatMap(it => {
 					const co = it.indexOf(":");
 					const name = it.substring(0, co).trim();
-					const type = parse(it.substring(co + 1));
+					const type = parse(it.substring(co + 1), aliases);
 
 					if ("..." === name) {
 						varargType = type;
@@ -306,6 +453,7 @@ export function parse(repr: string): LuaType {
 		};
 
 		if (varargType) fnType.vararg = varargType;
+		if (generics) fnType.generics = generics;
 		return fnType;
 	}
 
@@ -323,25 +471,32 @@ export function parse(repr: string): LuaType {
  * 
  * @throws `TypeError`
  */
-export function simplify(type: LuaType, depth?: number, typeFrom?: LuaType, typeBuilding?: LuaType): LuaType {
+export function simplify(type: LuaType, depth?: number, building?: Map<LuaType, LuaType>): LuaType {
 	if ('string' === typeof type) return type;
+	if (isLuaTypeAlias(type)) return type; // kept as named
+	if (isLuaTypeParameter(type)) return type;
 
-	if (typeFrom === type) return typeBuilding ?? type;
+	// a type within itself is the one being built for it
+	const built = building?.get(type);
+	if (built) return built;
 	if (undefined === depth) return simplify(type, 1); // for the typing :/
 	if (MAX_DEPTH < depth) return type;
 
 	if (Array.isArray(type)) {
 		const r: LuaType[] = [];
-		type.forEach(it => r.push(simplify(it, depth+1, type, r)));
+		const lineage = new Map(building).set(type, r);
+		type.forEach(it => r.push(simplify(it, depth+1, lineage)));
 		return r;
 	}
 
 	if (isLuaFunction(type)) {
 		const r: LuaFunction = { parameters: [], return: 'nil' };
+		const lineage = new Map(building).set(type, r);
 		r.parameters = type.parameters
-			.map(({ name, type }) => ({ name, type: simplify(type, depth+1, type, r) }));
-		r.vararg = type.vararg && simplify(type.vararg, depth+1, type, r);
-		r.return = simplify(type.return, depth+1, type, r);
+			.map(it => ({ name: it.name, type: simplify(it.type, depth+1, lineage) }));
+		r.vararg = type.vararg && simplify(type.vararg, depth+1, lineage);
+		r.return = simplify(type.return, depth+1, lineage);
+		if (type.generics) r.generics = type.generics;
 		return r;
 	}
 
@@ -350,14 +505,15 @@ export function simplify(type: LuaType, depth?: number, typeFrom?: LuaType, type
 			entries: {},
 			sequence: {},
 		};
+		const lineage = new Map(building).set(type, r);
 		// if it seems to be an actual sequence,
 		// the `typed.number` is used to reflect this
 		const sequence = Object
 			.fromEntries(Object
 				.entries(type.sequence)
-				.map(([key, _type]) => [key, simplify(_type, depth+1, type, r)])
+				.map(([key, _type]) => [key, simplify(_type, depth+1, lineage)])
 			);
-		let typedNumber = type.typed?.number && simplify(type.typed.number, depth+1, type, r);
+		let typedNumber = type.typed?.number && simplify(type.typed.number, depth+1, lineage);
 
 		let keyCounting = 1;
 		if (sequence[keyCounting] && (!typedNumber || equivalent(sequence[keyCounting], typedNumber))) {
@@ -370,22 +526,23 @@ export function simplify(type: LuaType, depth?: number, typeFrom?: LuaType, type
 		r.entries = Object
 			.fromEntries(Object
 				.entries(type.entries)
-				.map(([key, _type]) => [key, simplify(_type, depth+1, type, r)])
+				.map(([key, _type]) => [key, simplify(_type, depth+1, lineage)])
 			);
 		r.sequence = sequence;
-		r.true = type.true && simplify(type.true, depth+1, type, r);
-		r.false = type.false && simplify(type.false, depth+1, type, r);
+		r.true = type.true && simplify(type.true, depth+1, lineage);
+		r.false = type.false && simplify(type.false, depth+1, lineage);
 		r.typed = (type.typed || typedNumber) && {
-				string: type.typed?.string && simplify(type.typed.string, depth+1, type, r),
+				string: type.typed?.string && simplify(type.typed.string, depth+1, lineage),
 				number: typedNumber,
-				boolean: type.typed?.boolean && simplify(type.typed.boolean, depth+1, type, r),
+				boolean: type.typed?.boolean && simplify(type.typed.boolean, depth+1, lineage),
 			};
+		if (type.metatable) r.metatable = type.metatable;
 		return r;
 	}
 
 	if (Object.prototype.hasOwnProperty.call(type, 'or')) {
 		const flat = flattenBinaryTree<'or', LuaType>(type, 'or')!
-			.map(it => simplify(it, depth+1, type, type));
+			.map(it => simplify(it, depth+1, new Map(building).set(type, type)));
 		const r: LuaType[] = [];
 
 		for (let k = 0; k < flat.length; k++) {
@@ -394,20 +551,21 @@ export function simplify(type: LuaType, depth?: number, typeFrom?: LuaType, type
 			// simple types are added to result of not already present
 			if ('string' === typeof it) {
 				if (!r.find(e => equivalent(e, it))) r.push(it);
-				break;
+				continue;
 			}
 
-			// functions are merged if their parameter signatures are compatible
+			// TODO: functions could be merged if their parameter signatures are compatible
 			// (ie. parameter have the same names until end of shortest, rest of
-			// longest are appended as nil-ables)
+			// longest are appended as nil-ables), for now treated as simple types
 			if (isLuaFunction(it)) {
-				break;
+				if (!r.find(e => equivalent(e, it))) r.push(it);
+				continue;
 			}
 
 			// tables a treated similarly to simple types
 			if (isLuaTable(it)) {
 				if (!r.find(e => equivalent(e, it))) r.push(it);
-				break;
+				continue;
 			}
 
 			// array are merged similarly to function parameter signatures
@@ -426,7 +584,7 @@ export function simplify(type: LuaType, depth?: number, typeFrom?: LuaType, type
 				});
 				if (found < 0) r.push(it);
 				else {
-					const ls = it[found] as LuaType[];
+					const ls = r[found] as LuaType[];
 					// if it gets here, both arrays of types (`ls` and `it`) have a common
 					// beginning (eg. [a, b, c] and [a, b]) in which case they get merged
 					// into only 1 entry in `r` (eg. [a, b, c|nil])
@@ -439,7 +597,13 @@ export function simplify(type: LuaType, depth?: number, typeFrom?: LuaType, type
 					// `shortest` is the one that is updated
 					r[found] = shortest;
 				}
-				break;
+				continue;
+			}
+
+			// intersections, negations and type parameters are also treated similarly to simple types
+			if (Object.prototype.hasOwnProperty.call(it, 'and') || Object.prototype.hasOwnProperty.call(it, 'not') || isLuaTypeParameter(it)) {
+				if (!r.find(e => equivalent(e, it))) r.push(it);
+				continue;
 			}
 
 			// because they should not be any '{or:[,]}' in a result from `flattenBinaryTree(., 'or')`
@@ -450,13 +614,29 @@ export function simplify(type: LuaType, depth?: number, typeFrom?: LuaType, type
 		return buildBinaryTree(r, 'or')!;
 	}
 
-	// if (Object.prototype.hasOwnProperty.call(type, 'or')) {
-	// 	complicated
-	// }
+	if (Object.prototype.hasOwnProperty.call(type, 'and')) {
+		const flat = flattenBinaryTree<'and', LuaType>(type as { and: [LuaType, LuaType] }, 'and')!
+			.map(it => simplify(it, depth+1, new Map(building).set(type, type)));
+		const r: LuaType[] = [];
+
+		// `any` and `unknown` do not restrict anything (`a & any` is `a`)
+		// and every other type is added if not already present
+		flat.forEach(it => {
+			if ('any' !== it && 'unknown' !== it && !r.find(e => equivalent(e, it))) r.push(it);
+		});
+
+		// re-join as an intersection
+		return buildBinaryTree(r, 'and') ?? 'any';
+	}
+
+	if (Object.prototype.hasOwnProperty.call(type, 'not')) {
+		const c = simplify((type as { not: LuaType }).not, depth+1, new Map(building).set(type, type));
 
-	// if (Object.prototype.hasOwnProperty.call(type, 'note')) {
-	// 	complicated
-	// }
+		// `~~a` is `a`
+		if (!isLuaTypeAlias(c) && Object.prototype.hasOwnProperty.call(c, 'not'))
+			return (c as { not: LuaType }).not;
+		return { not: c };
+	}
 
 	throw new TypeError(`Trying to simplify unhandled type '${represent(type)}'`);
 }
@@ -527,47 +707,388 @@ export function equivalent(typeA: LuaType, typeB: LuaType, depth?: number): bool
 	const unionTypeB = Object.prototype.hasOwnProperty.call(typeB, 'or') ? typeB as { or: [LuaType, LuaType] } : false;
 	// OK, so this might not be enough to compare unions in general,
 	// but should be a start _for simplified types_ (ie. results from `simplify`)
-	if (unionTypeA && unionTypeB) {
-		const flattenA = flattenBinaryTree<'or', LuaType>(unionTypeA, 'or')!;
-		const flattenB = flattenBinaryTree<'or', LuaType>(unionTypeB, 'or')!;
-		// @thanks https://stackoverflow.com/a/29759699/13196480
-		// this is why here has to use the sad solution of arrays and O(n^1268721)
-
-		const [shortest, longest] = flattenA.length < flattenB.length
-			? [flattenA, flattenB]
-			: [flattenB, flattenA];
-
-		const lengthShort = shortest.length;
-		const lengthLong = longest.length;
-
-		const visited: Record<number, boolean> = {};
-
-		// every type in `longest` must also be in `shortest`
-		for (let k = 0; k < lengthLong; k++) {
-			const it = longest[k];
-			const found = shortest.findIndex(e => equivalent(e, it, depth+1));
-			if (-1 === found) return false;
-			visited[found] = true;
-		}
+	if (unionTypeA && unionTypeB) return equivalentMembers(
+		flattenBinaryTree<'or', LuaType>(unionTypeA, 'or')!,
+		flattenBinaryTree<'or', LuaType>(unionTypeB, 'or')!,
+		depth,
+	);
+	if (unionTypeA || unionTypeB) return false;
 
-		// every type in `shortest` must also be in `longest`
-		for (let k = 0; k < lengthShort; k++) {
-			const it = shortest[k];
-			if (!visited[k] && !longest.find(e => equivalent(e, it, depth+1)))
-				return false;
-		}
+	// same as with unions
+	const intersectionTypeA = Object.prototype.hasOwnProperty.call(typeA, 'and') ? typeA as { and: [LuaType, LuaType] } : false;
+	const intersectionTypeB = Object.prototype.hasOwnProperty.call(typeB, 'and') ? typeB as { and: [LuaType, LuaType] } : false;
+	if (intersectionTypeA && intersectionTypeB) return equivalentMembers(
+		flattenBinaryTree<'and', LuaType>(intersectionTypeA, 'and')!,
+		flattenBinaryTree<'and', LuaType>(intersectionTypeB, 'and')!,
+		depth,
+	);
+	if (intersectionTypeA || intersectionTypeB) return false;
+
+	const negationTypeA = Object.prototype.hasOwnProperty.call(typeA, 'not') ? typeA as { not: LuaType } : false;
+	const negationTypeB = Object.prototype.hasOwnProperty.call(typeB, 'not') ? typeB as { not: LuaType } : false;
+	if (negationTypeA && negationTypeB)
+		return equivalent(negationTypeA.not, negationTypeB.not, depth+1);
+	if (negationTypeA || negationTypeB) return false;
+
+	if (isLuaTypeParameter(typeA) && isLuaTypeParameter(typeB))
+		return typeA.generic === typeB.generic;
 
-		return true;
+	return false;
+}
+
+/**
+ * whether two flattened unions (or intersections) have the same members,
+ * regardless of the order
+ */
+function equivalentMembers(flattenA: LuaType[], flattenB: LuaType[], depth: number) {
+	// @thanks https://stackoverflow.com/a/29759699/13196480
+	// this is why here has to use the sad solution of arrays and O(n^1268721)
+
+	const [shortest, longest] = flattenA.length < flattenB.length
+		? [flattenA, flattenB]
+		: [flattenB, flattenA];
+
+	const lengthShort = shortest.length;
+	const lengthLong = longest.length;
+
+	const visited: Record<number, boolean> = {};
+
+	// every type in `longest` must also be in `shortest`
+	for (let k = 0; k < lengthLong; k++) {
+		const it = longest[k];
+		const found = shortest.findIndex(e => equivalent(e, it, depth+1));
+		if (-1 === found) return false;
+		visited[found] = true;
+	}
+
+	// every type in `shortest` must also be in `longest`
+	for (let k = 0; k < lengthShort; k++) {
+		const it = shortest[k];
+		if (!visited[k] && !longest.find(e => equivalent(e, it, depth+1)))
+			return false;
 	}
-	if (unionTypeA || unionTypeB) return false;
 
-	// .and {
-	// 	complicated
-	// }
+	return true;
+}
 
-	// .not {
-	// 	complicated
-	// }
+/**
+ * whether a value of type `source` can be used where a `target` is expected
+ * (eg. as an argument), as opposed to `equivalent` which is strict:
+ *  - `any` and `unknown` go both ways (nothing can be told about the latter),
+ *    and so do type parameters (only known at a call, see `instantiate()`)
+ *  - a union is assignable if every one of its types is, and to a union if
+ *    to any of its types (the opposite for intersections)
+ *  - a negation (eg. `~nil`) accepts anything not assignable to what it negates
+ *  - a table is assignable to one with less fields (width subtyping); a field
+ *    which is missing is `nil` (unless inherited through a metatable) and a
+ *    `typed` key applies to every such key
+ *  - a function is assignable if it accepts at least the parameters of the
+ *    target (contravariance) and its return is assignable; parameters after
+ *    those must accept `nil` (ie. be optional)
+ *  - the first type of a list (eg. what a call returns) is used as a single value
+ * 
+ * lenient past a certain depth (ie. assumes it is)
+ */
+export function isAssignable(source: LuaType, target: LuaType, depth?: number): boolean {
+	if (source === target) return true;
+	if ('any' === source || 'any' === target) return true;
+	// (eg. `unknown | number`, as nothing can be said based on an unknown)
+	if (isUnknown(source) || isUnknown(target)) return true;
+
+	if (undefined === depth) return isAssignable(source, target, 1); // for the typing :/
+	if (MAX_DEPTH < depth) return true;
+
+	if (Object.prototype.hasOwnProperty.call(source, 'or'))
+		return flattenBinaryTree<'or', LuaType>(source as { or: [LuaType, LuaType] }, 'or')!
+			.every(it => isAssignable(it, target, depth+1));
+	if (Object.prototype.hasOwnProperty.call(target, 'or'))
+		return flattenBinaryTree<'or', LuaType>(target as { or: [LuaType, LuaType] }, 'or')!
+			.some(it => isAssignable(source, it, depth+1));
+
+	if (Object.prototype.hasOwnProperty.call(target, 'and'))
+		return flattenBinaryTree<'and', LuaType>(target as { and: [LuaType, LuaType] }, 'and')!
+			.every(it => isAssignable(source, it, depth+1));
+	if (Object.prototype.hasOwnProperty.call(source, 'and')) {
+		const flat = flattenBinaryTree<'and', LuaType>(source as { and: [LuaType, LuaType] }, 'and')!;
+		if (flat.some(it => isAssignable(it, target, depth+1))) return true;
+		// the fields of a mixin (eg. `Entity & Drawable`) can come from any of its tables
+		const tables = flat.filter(isLuaTable);
+		return isLuaTable(target) && 1 < tables.length && isAssignable(mergeTables(tables), target, depth+1);
+	}
+
+	if (Object.prototype.hasOwnProperty.call(target, 'not'))
+		return !isAssignable(source, (target as { not: LuaType }).not, depth+1);
+	if (Object.prototype.hasOwnProperty.call(source, 'not'))
+		return !isAssignable(target, (source as { not: LuaType }).not, depth+1);
+
+	if (Array.isArray(source) || Array.isArray(target)) {
+		const sources = Array.isArray(source) ? source : [source];
+		if (!Array.isArray(target)) return isAssignable(sources[0] ?? 'nil', target, depth+1);
+		return target.every((it, k) => isAssignable(sources[k] ?? 'nil', it, depth+1));
+	}
+
+	if (isLuaFunction(source) && isLuaFunction(target)) {
+		const parametersAccepted = target.parameters.every((it, k) => {
+			const parameter = source.parameters[k]?.type ?? source.vararg;
+			return !parameter || isAssignable(it.type, parameter, depth+1);
+		});
+		const optionalRest = source.parameters
+			.slice(target.parameters.length)
+			.every(it => isAssignable(target.vararg ?? 'nil', it.type, depth+1));
+		const varargAccepted = !target.vararg || !source.vararg || isAssignable(target.vararg, source.vararg, depth+1);
+		return parametersAccepted && optionalRest && varargAccepted
+			&& isAssignable(source.return, target.return, depth+1);
+	}
+
+	if (isLuaTable(source) && isLuaTable(target)) {
+		const entry = (key: string) => fieldOwner(source, key)?.entries[key] ?? source.typed?.string ?? 'nil';
+		const index = (key: number) => source.sequence[key] ?? source.typed?.number ?? 'nil';
+		const boolean = (key: 'true' | 'false') => source[key] ?? source.typed?.boolean ?? 'nil';
+
+		if (!Object.entries(target.entries).every(([key, it]) => isAssignable(entry(key), it, depth+1))) return false;
+		if (!Object.entries(target.sequence).every(([key, it]) => isAssignable(index(+key), it, depth+1))) return false;
+		if (target.true && !isAssignable(boolean('true'), target.true, depth+1)) return false;
+		if (target.false && !isAssignable(boolean('false'), target.false, depth+1)) return false;
+
+		// every key of the source which is of a typed key's type must match it
+		const typed = target.typed;
+		if (typed?.string && ![...Object.values(source.entries), source.typed?.string]
+			.every(it => !it || isAssignable(it, typed.string!, depth+1))) return false;
+		if (typed?.number && ![...Object.values(source.sequence), source.typed?.number]
+			.every(it => !it || isAssignable(it, typed.number!, depth+1))) return false;
+		if (typed?.boolean && ![source.true, source.false, source.typed?.boolean]
+			.every(it => !it || isAssignable(it, typed.boolean!, depth+1))) return false;
+
+		return true;
+	}
 
 	return false;
 }
+
+/**
+ * a single table with the fields of every tables (the first one found for a key)
+ */
+function mergeTables(tables: LuaTable[]) {
+	const r: LuaTable = { entries: {}, sequence: {} };
+	[...tables].reverse().forEach(it => {
+		Object.assign(r.entries, it.entries);
+		Object.assign(r.sequence, it.sequence);
+		if (it.true) r.true = it.true;
+		if (it.false) r.false = it.false;
+		if (it.typed) r.typed = { ...r.typed, ...it.typed };
+	});
+	return r;
+}
+
+/**
+ * the function type as seen from a call with arguments of the given types:
+ * its type parameters (eg. `T` of `<T>(v: T) -> T`) are replaced with what
+ * they are inferred to be from the arguments, or with `unknown`
+ * 
+ * a type parameter is inferred from the first argument which tells it, the
+ * following ones are then checked against it (as for any other parameter)
+ * 
+ * @used `document/ > explore.ts > SelfExplore{} > callSignature()`
+ */
+export function instantiate(type: LuaFunction, args: LuaType[]): LuaFunction {
+	if (!type.generics) return type;
+
+	const bindings: Record<string, LuaType> = {};
+	type.parameters.forEach((it, k) => infer(it.type, args[k] ?? 'nil', bindings, 1));
+	if (type.vararg) args
+		.slice(type.parameters.length)
+		.forEach(it => infer(type.vararg!, it, bindings, 1));
+
+	const generics = type.generics;
+	const r: LuaFunction = {
+		parameters: type.parameters.map(it => ({ name: it.name, type: substitute(it.type, generics, bindings, 1) })),
+		return: substitute(type.return, generics, bindings, 1),
+	};
+	if (type.vararg) r.vararg = substitute(type.vararg, generics, bindings, 1);
+	return r;
+}
+
+/**
+ * binds the type parameters found in `target` by matching it with `source`
+ * (eg. `T` to `number` for `{ [: number]: T }` and `{ [1]: number }`)
+ */
+function infer(target: LuaType, source: LuaType, bindings: Record<string, LuaType>, depth: number) {
+	if (MAX_DEPTH < depth || 'string' === typeof target) return;
+	if (Array.isArray(source) && !Array.isArray(target)) source = source[0] ?? 'nil';
+
+	if (isLuaTypeParameter(target)) {
+		if (!Object.prototype.hasOwnProperty.call(bindings, target.generic) && !isUnknown(source))
+			bindings[target.generic] = source;
+		return;
+	}
+
+	// eg. `T | nil` with `number | nil` binds `T` to what remains: `number`
+	if (Object.prototype.hasOwnProperty.call(target, 'or')) {
+		const members = flattenBinaryTree<'or', LuaType>(target as { or: [LuaType, LuaType] }, 'or')!;
+		const fixed = members.filter(it => !isLuaTypeParameter(it));
+		const sources = flattenBinaryTree<'or', LuaType>(source as { or: [LuaType, LuaType] }, 'or') ?? [source];
+
+		// (the other members may tell about one as well, eg. `{ [: number]: T } | nil`)
+		fixed.forEach(it => sources.forEach(_it => infer(it, _it, bindings, depth+1)));
+
+		const remaining = sources.filter(it => !fixed.some(_it => isAssignable(it, _it)));
+		const rest = buildBinaryTree(remaining, 'or');
+		if (rest) members
+			.filter(isLuaTypeParameter)
+			.forEach(it => infer(it, rest, bindings, depth+1));
+		return;
+	}
+
+	if (Array.isArray(target)) {
+		const sources = Array.isArray(source) ? source : [source];
+		target.forEach((it, k) => infer(it, sources[k] ?? 'nil', bindings, depth+1));
+		return;
+	}
+
+	if (isLuaFunction(target) && isLuaFunction(source)) {
+		const fn = source;
+		target.parameters.forEach((it, k) => {
+			const parameter = fn.parameters[k]?.type ?? fn.vararg;
+			if (parameter) infer(it.type, parameter, bindings, depth+1);
+		});
+		infer(target.return, source.return, bindings, depth+1);
+		return;
+	}
+
+	const table = isLuaTable(target) && intersectedTable(source);
+	if (isLuaTable(target) && table) {
+		Object.entries(target.entries).forEach(([key, it]) => {
+			const entry = fieldOwner(table, key)?.entries[key];
+			if (entry) infer(it, entry, bindings, depth+1);
+		});
+		Object.entries(target.sequence).forEach(([key, it]) => {
+			const index = table.sequence[+key];
+			if (index) infer(it, index, bindings, depth+1);
+		});
+
+		// every key of the source which is of a typed key's type tells about it
+		const values = {
+			string: [...Object.values(table.entries), table.typed?.string],
+			number: [...Object.values(table.sequence), table.typed?.number],
+			boolean: [table.true, table.false, table.typed?.boolean],
+		};
+		Object.entries(target.typed ?? {}).forEach(([keyType, it]) => {
+			const found = values[keyType as LuaTypedKey['type']].filter((it): it is LuaType => !!it);
+			const union = buildBinaryTree(found, 'or');
+			if (it && union) infer(it, simplify(union), bindings, depth+1);
+		});
+	}
+}
+
+/**
+ * replaces the type parameters `generics` within `type` with their bindings
+ * (or `unknown`), the type itself is returned if it has none
+ */
+function substitute(type: LuaType, generics: string[], bindings: Record<string, LuaType>, depth: number): LuaType {
+	if ('string' === typeof type || MAX_DEPTH < depth) return type;
+	if (isLuaTypeParameter(type))
+		return generics.includes(type.generic) ? bindings[type.generic] ?? 'unknown' : type;
+
+	let changed = false;
+	const track = (it: LuaType, replaced = generics) => {
+		const r = substitute(it, replaced, bindings, depth+1);
+		if (r !== it) changed = true;
+		return r;
+	};
+
+	if (Array.isArray(type)) {
+		const r = type.map(it => track(it));
+		return changed ? r : type;
+	}
+
+	if (isLuaFunction(type)) {
+		// its own type parameters are not those being replaced
+		const inner = generics.filter(it => !type.generics?.includes(it));
+		if (!inner.length) return type;
+		const r: LuaFunction = {
+			...type,
+			parameters: type.parameters.map(it => ({ name: it.name, type: track(it.type, inner) })),
+			return: track(type.return, inner),
+		};
+		if (type.vararg) r.vararg = track(type.vararg, inner);
+		return changed ? r : type;
+	}
+
+	if (isLuaTable(type)) {
+		const r: LuaTable = {
+			...type,
+			entries: Object.fromEntries(Object.entries(type.entries).map(([key, it]) => [key, track(it)])),
+			sequence: Object.fromEntries(Object.entries(type.sequence).map(([key, it]) => [key, track(it)])),
+		};
+		if (type.true) r.true = track(type.true);
+		if (type.false) r.false = track(type.false);
+		if (type.typed) r.typed = Object.fromEntries(Object.entries(type.typed).map(([key, it]) => [key, it && track(it)]));
+		return changed ? r : type;
+	}
+
+	if (Object.prototype.hasOwnProperty.call(type, 'or')) {
+		const [a, b] = (type as { or: [LuaType, LuaType] }).or;
+		const r = { or: [track(a), track(b)] as [LuaType, LuaType] };
+		return changed ? r : type;
+	}
+
+	if (Object.prototype.hasOwnProperty.call(type, 'and')) {
+		const [a, b] = (type as { and: [LuaType, LuaType] }).and;
+		const r = { and: [track(a), track(b)] as [LuaType, LuaType] };
+		return changed ? r : type;
+	}
+
+	if (Object.prototype.hasOwnProperty.call(type, 'not')) {
+		const r = { not: track((type as { not: LuaType }).not) };
+		return changed ? r : type;
+	}
+
+	return type;
+}
+
+// what Lua's `type()` returns, see `kindOf()`
+export type LuaTypeKind = 'nil' | 'number' | 'string' | 'boolean' | 'table' | 'function'
+
+export function isLuaTypeKind(name: string): name is LuaTypeKind {
+	return ['nil', 'number', 'string', 'boolean', 'table', 'function'].includes(name);
+}
+
+/**
+ * what Lua's `type()` would return for a value of this type, if a single one
+ * (ie. undefined for `any`, `unknown`, unions...)
+ */
+export function kindOf(type: LuaType): LuaTypeKind | undefined {
+	if ('nil' === type || 'number' === type || 'string' === type || 'boolean' === type) return type;
+	if (isLuaTable(type)) return 'table';
+	if (isLuaFunction(type)) return 'function';
+}
+
+/**
+ * narrows a type knowing that a value of it is (`is` true) or is not (`is`
+ * false) of one of the `kinds`, eg. `number` for `number | nil` in `if x then`
+ * (is not `nil`) or `{}` for `any` in `if type(x) == "table" then`
+ * 
+ * the type is returned as is if nothing would remain (or nothing changed)
+ * 
+ * @used `document/ > explore.ts > SelfExplore{} > narrowingsOf()`
+ */
+export function narrow(type: LuaType, kinds: LuaTypeKind[], is: boolean): LuaType {
+	const members = flattenBinaryTree<'or', LuaType>(type as { or: [LuaType, LuaType] }, 'or') ?? [type];
+
+	const r = members.flatMap(it => {
+		const kind = kindOf(it);
+		if (kind) return kinds.includes(kind) === is ? [it] : [];
+
+		// an `any` which is known to be of one kind is of that kind
+		if (is && 1 === kinds.length && ('any' === it || 'unknown' === it)) {
+			const [only] = kinds;
+			if ('table' === only) return [{ entries: {}, sequence: {} } as LuaTable];
+			if ('function' !== only) return [only];
+		}
+		return [it];
+	});
+
+	// (an alias is only kept if nothing changed)
+	if (r.length === members.length && r.every((it, k) => it === members[k])) return type;
+	return buildBinaryTree(r, 'or') ?? type;
+}
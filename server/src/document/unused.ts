@@ -0,0 +1,161 @@
+import { ast } from 'pico8parse';
+import { Diagnostic, DiagnosticSeverity, DiagnosticTag } from 'vscode-languageserver';
+import { Range } from 'vscode-languageserver-textdocument';
+
+import { LUTScopes } from './explore';
+import { LuaVariable } from './typing';
+import { locToRange, rangeContains } from '../util';
+
+// a statement within its block
+type Placement = { block: ast.Statement[], index: number };
+
+const at = (range: Range) => `${range.start.line}:${range.start.character}`;
+
+/**
+ * whether nothing after the statement is reached (unless through a label),
+ * eg. a `break` or a `do return end`
+ */
+function isJump(statement: ast.Statement): boolean {
+	if ('ReturnStatement' === statement.type || 'BreakStatement' === statement.type || 'GotoStatement' === statement.type) return true;
+	return 'DoStatement' === statement.type && 0 < statement.body.length && isJump(statement.body[statement.body.length-1]);
+}
+
+/**
+ * whether a node contains a `break` or a `goto` (not within a function),
+ * ie. whether what follows it in its block may be skipped
+ */
+function mayJump(node: unknown): boolean {
+	if (!node || 'object' !== typeof node) return false;
+	if (Array.isArray(node)) return node.some(mayJump);
+
+	const type = (node as ast.Node).type;
+	if ('BreakStatement' === type || 'GotoStatement' === type) return true;
+	if ('FunctionDeclaration' === type) return false;
+	return Object.keys(node).some(key => 'loc' !== key && !key.startsWith('aug') && mayJump((node as Record<string, unknown>)[key]));
+}
+
+/**
+ * hints at the code which could be removed (to save tokens), tagged as unnecessary:
+ *  - locals, local functions and parameters which are never read (only the
+ *    trailing parameters, as the others are needed for the following ones)
+ *  - values assigned to a local which are assigned again, in the same block,
+ *    before being read
+ *  - statements following a `return`, `break` or `goto` in the same block
+ *
+ * names starting with `_` are not reported (eg. `for _, v in pairs(t)`)
+ *
+ * @param chunk as explored
+ * @param scopes every scope found while exploring (with the reads and writes of their variables)
+ */
+export function diagnoseUnused(chunk: ast.Chunk, scopes: LUTScopes) {
+	const diagnostics: Diagnostic[] = [];
+	const unnecessary = (message: string, range: Range, code: string) => diagnostics.push({
+		message,
+		range,
+		severity: DiagnosticSeverity.Hint,
+		code,
+		tags: [DiagnosticTag.Unnecessary],
+	});
+
+	// the range of every function, to know if a local is captured by one
+	const functions: Range[] = [];
+	// the range of the local functions, by the start of their name
+	const localFunctions = new Map<string, Range>();
+	// the statements only assigning to an identifier (ie. not `+=`), by its start
+	const assignments = new Map<string, Placement>();
+
+	const walkBlock = (block: ast.Statement[]) => {
+		let unreachable: ast.Statement[] | undefined;
+		const report = () => {
+			if (!unreachable?.length) return;
+			unnecessary("unreachable code", {
+				start: locToRange(unreachable[0].loc).start,
+				end: locToRange(unreachable[unreachable.length-1].loc).end,
+			}, 'unreachable');
+		};
+
+		block.forEach((statement, index) => {
+			if (unreachable) {
+				if ('LabelStatement' !== statement.type) return void unreachable.push(statement);
+				report();
+				unreachable = undefined;
+			}
+
+			if ('AssignmentStatement' === statement.type || 'LocalStatement' === statement.type)
+				statement.variables.forEach((it, k) => {
+					// (a `local` without value is only a declaration)
+					if ('Identifier' === it.type && ('AssignmentStatement' === statement.type || k < statement.init.length))
+						assignments.set(at(locToRange(it.loc)), { block, index });
+				});
+
+			walk(statement);
+			if (isJump(statement)) unreachable = [];
+		});
+		report();
+	};
+
+	const walk = (node: unknown): void => {
+		if (!node || 'object' !== typeof node) return;
+		if (Array.isArray(node)) return node.forEach(walk);
+
+		const it = node as ast.Node;
+		if ('FunctionDeclaration' === it.type) {
+			functions.push(locToRange(it.loc));
+			if (it.isLocal && 'Identifier' === it.identifier?.type)
+				localFunctions.set(at(locToRange(it.identifier.loc)), locToRange(it.loc));
+		}
+
+		Object.keys(it).forEach(key => {
+			const value = (it as unknown as Record<string, unknown>)[key];
+			if ('body' === key && Array.isArray(value)) walkBlock(value);
+			else if ('loc' !== key && !key.startsWith('aug')) walk(value);
+		});
+	};
+
+	walk(chunk);
+
+	const diagnoseAssignments = (name: string, variable: LuaVariable, declaration: Range) => {
+		// (when captured by a function, it may be read whenever that is called)
+		const captured = variable.ranges.some(range => functions.some(it => rangeContains(it, range.start) && !rangeContains(it, declaration.start)));
+		if (captured) return;
+
+		const chronological = variable.ranges.map((range, k) => ({ range, write: variable.writes[k] })).reverse();
+		chronological.forEach((it, k) => {
+			const next = chronological[k+1];
+			if (!it.write || !next?.write) return;
+
+			const from = assignments.get(at(it.range));
+			const to = assignments.get(at(next.range));
+			if (!from || !to || from.block !== to.block || to.index <= from.index) return;
+			if (from.block.slice(from.index+1, to.index).some(mayJump)) return;
+
+			unnecessary(`the value assigned to ${name} is never used`, it.range, 'unused-assignment');
+		});
+	};
+
+	scopes.forEach(({ scope }) => {
+		if ('global' === scope.tag) return;
+
+		// in order, to only report the trailing ones
+		const parameters: { name: string, range: Range, used: boolean }[] = [];
+
+		Object.keys(scope.variables).forEach(name => {
+			const variable = scope.variables[name];
+			if (!variable || variable.implicit || name.startsWith("_")) return;
+
+			const declaration = variable.ranges[variable.ranges.length-1];
+			// (a local function calling itself is not using itself)
+			const own = localFunctions.get(at(declaration));
+			const used = variable.ranges.some((range, k) => !variable.writes[k] && !(own && rangeContains(own, range.start)));
+
+			if (variable.parameter) parameters.push({ name, range: declaration, used });
+			else if (!used) unnecessary(`${own ? "function " : ""}${name} is never used`, declaration, 'unused');
+			else diagnoseAssignments(name, variable, declaration);
+		});
+
+		const last = parameters.map(it => it.used).lastIndexOf(true);
+		parameters.slice(last+1).forEach(it => unnecessary(`parameter ${it.name} is never used`, it.range, 'unused'));
+	});
+
+	return diagnostics;
+}
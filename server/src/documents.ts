@@ -1,13 +1,24 @@
-import { readdir, readdirSync, readFileSync } from 'fs';
+import { existsSync, readdir, readdirSync, readFileSync } from 'fs';
 import { join, resolve } from 'path';
-import { parse as parseLua, Options as ParseOptions, SyntaxError as ParseError, LuaVersion } from 'pico8parse';
-import { Connection, DocumentSymbolParams, Hover, HoverParams, TextDocuments, TextDocumentChangeEvent, CompletionParams, CompletionItem as BaseCompletionItem, CompletionContext, DocumentSymbol, Diagnostic, CompletionItemKind, DocumentHighlightParams, DocumentHighlight, SignatureHelpParams, SignatureHelp, CompletionTriggerKind, SignatureHelpContext, DocumentLinkParams, DocumentLink, DiagnosticSeverity } from 'vscode-languageserver';
+import { pathToFileURL } from 'url';
+import { parse as parseLua, Options as ParseOptions, LuaVersion } from 'pico8parse';
+import { Connection, SemanticTokens, SemanticTokensBuilder, SemanticTokensParams, SemanticTokensRangeParams, DocumentSymbolParams, Hover, HoverParams, TextDocuments, TextDocumentChangeEvent, CompletionParams, CompletionItem as BaseCompletionItem, CompletionContext, DocumentSymbol, Diagnostic, CompletionItemKind, DocumentHighlightParams, DocumentHighlight, SignatureHelpParams, SignatureHelp, CompletionTriggerKind, SignatureHelpContext, DocumentLinkParams, DocumentLink, DiagnosticSeverity, DefinitionParams, DeclarationParams, Location, ReferenceParams, RenameParams, PrepareRenameParams, WorkspaceEdit, ResponseError, ErrorCodes, SymbolInformation, TextDocumentIdentifier, TextEdit, DocumentFormattingParams, DocumentRangeFormattingParams, FormattingOptions, ExecuteCommandParams, DiagnosticTag, TypeDefinitionParams, CodeAction, CodeActionKind, CodeActionParams, FoldingRange, FoldingRangeParams } from 'vscode-languageserver';
 import { Position, Range, TextDocument } from 'vscode-languageserver-textdocument';
 
-import { LUTFunctions, LUTScopes, LUTTables, LUTVariables, SelfExplore } from './document/explore';
-import { isLuaFunction, isLuaTable, LuaDoc, LuaFunction, LuaTable, LuaType, parse as parseType, represent } from './document/typing';
-import { SettingsManager } from './settings';
-import { findWordRange, locToRange, nearestParserVersion, providedVersion, rangeContains, representVariableHover, uriToFsPath } from './util';
+import { Declaration, loadDeclarations } from './declarations';
+import { Budget, countTokens, diagnoseBudget, LIMITS, measure } from './document/budget';
+import { Cartridge } from './document/cartridge';
+import { foldingRanges } from './document/folding';
+import { format, FormatOptions } from './document/format';
+import { DiagnosticFix, SelfExplore } from './document/explore';
+import { CALLBACKS, minify, MinifyOptions, MinifyResult, shortNames } from './document/minify';
+import { parseRecovering } from './document/recover';
+import { classify } from './document/semantic';
+import { representSpriteHover } from './document/sprites';
+import { diagnoseUnused } from './document/unused';
+import { fieldsOf, isLuaFunction, isLuaTable, isLuaTypeAlias, LuaDoc, LuaFunction, LuaTable, LuaType, LuaVariable, parse as parseType, represent } from './document/typing';
+import { Settings, SettingsManager } from './settings';
+import { compareVersions, findWordRange, flattenBinaryTree, hasCartridgeHeader, headerFileVersion, isValidIdentifier, locToRange, nearestParserVersion, providedVersion, rangeContains, rangeEquals, representVariableHover, uniqueRanges, uriToFsPath } from './util';
 
 const baseParseOptions: Partial<ParseOptions> = {
 	locations: true,
@@ -15,6 +26,35 @@ const baseParseOptions: Partial<ParseOptions> = {
 	ignoreP8scii: true,
 } as any;
 
+/**
+ * the parser version to use from the one found in a header (if any)
+ */
+function headerVersion(headerProvidedVersion: string | undefined, defaultApiVersion: string | undefined) {
+	return ("PICO-8-" + (!headerProvidedVersion
+		? defaultApiVersion
+		: nearestParserVersion(headerProvidedVersion)
+	)) as LuaVersion;
+}
+
+const RULE_SEVERITIES = {
+	hint: DiagnosticSeverity.Hint,
+	warning: DiagnosticSeverity.Warning,
+	error: DiagnosticSeverity.Error,
+};
+
+/**
+ * the diagnostics with the severity set for their rule (by `code`),
+ * without the ones which rule is turned off
+ */
+function applyRules(diagnostics: Diagnostic[], rules: Settings['parse']['rules'] | undefined) {
+	return diagnostics.flatMap(it => {
+		const rule = rules?.[it.code as string];
+		if (!rule) return [it];
+		if ('off' === rule) return [];
+		return [{ ...it, severity: RULE_SEVERITIES[rule] }];
+	});
+}
+
 interface CompletionItem extends BaseCompletionItem {
 	data?: {
 		uri: string,
@@ -25,6 +65,12 @@ interface CompletionItem extends BaseCompletionItem {
 export class Document extends SelfExplore {
 
 	private includes: { directive: string, line: number, target: string, tooltip: string, range: Range }[] = [];
+	// undefined when not a cartridge (ie. raw Lua, for example from an include)
+	private cartridge?: Cartridge;
+	// code and tokens of this document only (ie. without the included files)
+	private code = "";
+	private tokens = 0;
+	private budget?: Budget;
 	private parseOptions: Partial<ParseOptions>;
 
 	constructor(public uri: string, private manager: DocumentsManager) {
@@ -36,43 +82,71 @@ export class Document extends SelfExplore {
 		return new Promise<void>((resolve, reject) => {
 			this.manager.settings.getDocumentSettings(this.uri).then(settings => {
 				const additional = settings?.parse?.preDefinedGlobals?.flatMap(it => {
-					const co = it.indexOf(":");
-					if (-1 < co) {
-						const name = it.substring(0, co).trim();
-						const doc = "From pre-defined globals";
-						try {
-							const type = parseType(it.substring(co + 1));
-							return [{ name, type, doc }];
-						} catch {
-							return name ? [{ name, type: 'any' as LuaType, doc }] : [];
-						}
+					const co = 'string' === typeof it ? it.indexOf(":") : -1;
+					if ('string' === typeof it && -1 === co) return [];
+					const name = ('string' === typeof it ? it.substring(0, co) : it.name).trim();
+					const doc = ('string' !== typeof it && it.doc) || "From pre-defined globals";
+					const from = 'settings' as const;
+					try {
+						const type = parseType('string' === typeof it ? it.substring(co + 1) : it.type, this.aliasLookup);
+						return [{ name, type, doc, from }];
+					} catch {
+						return name ? [{ name, type: 'any' as LuaType, doc, from }] : [];
 					}
-					return [];
 				}) ?? [];
 				if (additional.length) {
 					console.log("Found additional user pre-defined:");
 					console.dir(additional);
 				}
+				let declarations: Declaration[];
+				try {
+					declarations = loadDeclarations();
+				} catch (err) {
+					reject(err);
+					return;
+				}
+
+				// the documentation is from the wiki (see `api/wiki_get.js`), if it was fetched
 				const base = join(__dirname, "..", "..", "api", "out");
 				readdir(base, (err, dirs) => {
-					if (err) reject(err);
-					const api = dirs
+					if (err) console.log(`No documentation for the API: ${err}`);
+					const wiki: { name: string, type: LuaType, doc: string, deprecated?: boolean }[] = (dirs ?? [])
 						.flatMap(dir => readdirSync(join(base, dir))
-							.map(it => JSON
-								.parse(readFileSync(join(base, dir, it)).toString())
-							)
+							.map(it => JSON.parse(readFileSync(join(base, dir, it)).toString()))
 						);
-					api.push({ name: "?", type: 'any', doc: "" });
-					const defs: { name: string, type: LuaType, doc: string }[] = api.concat(additional);
+
+					const api = declarations.map(it => {
+						const doc = wiki.find(entry => it.name === entry.name)?.doc ?? "";
+						const version = [
+							it.since && `_since PICO-8 ${it.since}_`,
+							it.until && `_removed in PICO-8 ${it.until}_`,
+							it.deprecated && `_deprecated${it.replacement ? `, use \`${it.replacement}\` instead` : ""}_`,
+						].filter(it => it).join(", ");
+						return { ...it, doc: [doc, version].filter(it => it).join("\n\n"), from: 'api' as const };
+					});
+					// the items which are only documented (eg. the commands)
+					wiki.forEach(it => {
+						if (!declarations.some(declared => it.name === declared.name))
+							api.push({ ...it, kind: "", from: 'api' });
+					});
+					api.push({ name: "?", type: 'any', doc: "", kind: "", from: 'api' });
+
+					const defs: (Partial<Declaration> & { name: string, type: LuaType, doc: string, from: 'api' | 'settings' })[] = [...api, ...additional];
 					defs.forEach(it => {
 						this.globalScope.variables[it.name] = {
 							ranges: [locToRange(undefined)],
 							scopes: [this.globalScope],
 							types: [it.type],
+							writes: [true],
 							doc: {
 								text: it.doc,
 								type: it.type,
 							},
+							predefined: it.from,
+							deprecated: it.deprecated,
+							since: it.since,
+							until: it.until,
+							replacement: it.replacement,
 						};
 					});
 					resolve();
@@ -88,15 +162,23 @@ export class Document extends SelfExplore {
 
 		const includesDiagnostics: Diagnostic[] = [];
 		const baseUri = this.uri.slice(0, this.uri.lastIndexOf('/'));
+		const includePaths = docSettings?.parse.includePaths ?? [];
+
+		const text = textDocument.getText();
+		this.cartridge = hasCartridgeHeader(text) ? new Cartridge(text) : undefined;
 
 		this.includes = [];
+		const toInclude: { uri: string, content: string, hasValidHeader: boolean }[] = [];
 		let line = -1;
-		const cleanedText = (textDocument.getText() + "\n") // XXX: includes outside __lua__ section will...
+		const cleanedText = (text + "\n")
 			.replace(/[ \t]*#include\s+(.*?)\s*\n|\n/gm, (directive, filename: string | undefined) => {
 				line++;
-				if (!filename) return directive;
+				if (!filename || !this.inLua(line)) return directive;
 
-				const target = baseUri + '/' + filename;
+				// next to the document, or else in one of the include paths
+				const target = [baseUri, ...includePaths.map(it => pathToFileURL(it).href)]
+					.map(it => it + '/' + filename)
+					.find(it => this.manager.get(it) || existsSync(resolve(uriToFsPath(it)))) ?? baseUri + '/' + filename;
 				const index = directive.lastIndexOf(filename);
 				const range = {
 					start: { line, character: index, },
@@ -106,14 +188,12 @@ export class Document extends SelfExplore {
 				// XXX: could not make the onDocumentLinkResolve work, but this should have been over there...
 				// (also moved everything here to have diagnostics)
 				let tooltip: string;
-				const uri = baseUri + '/' + filename;
-				const path = resolve(uriToFsPath(uri));
+				const path = resolve(uriToFsPath(target));
 				try {
-					const content = readFileSync(path).toString();
-					const p = content.indexOf('p');
-					const n = content.indexOf('\n');
-					const h = "pico-8 cartridge";
-					const hasValidHeader = p < n && content.slice(p, p + h.length) !== h;
+					// if opened, the content may not be saved yet
+					const content = this.manager.get(target)?.getText() ?? readFileSync(path).toString();
+					const hasValidHeader = hasCartridgeHeader(content);
+					toInclude.push({ uri: target, content, hasValidHeader });
 
 					tooltip = hasValidHeader
 						? "PICO-8 include (includes `__lua__` sections)"
@@ -124,19 +204,27 @@ export class Document extends SelfExplore {
 							message: "file may be too long to be correctly included by PICO-8",
 							range,
 							severity: DiagnosticSeverity.Warning,
+							code: 'include',
 						});
 				} catch {
 					tooltip = "could not read file";
 
+					const quoted = /^(".*"|'.*'|<.*>)$/.test(filename);
 					if (filename.match(/".*"/)) tooltip+= " (try removing the \" \")";
 					else if (filename.match(/'.*'/)) tooltip+= " (try removing the ' ')";
 					else if (filename.match(/<.*>/)) tooltip+= " (try removing the < >)";
 					else tooltip+= ` (make sure '${path}' is accessible)`;
 
+					const fix: DiagnosticFix | undefined = !quoted ? undefined : {
+						title: "Remove the quotes",
+						edits: [{ range, newText: filename.slice(1, -1) }],
+					};
 					includesDiagnostics.push({
 						message: tooltip,
 						range,
 						severity: DiagnosticSeverity.Error,
+						code: 'include',
+						data: fix,
 					});
 				}
 
@@ -147,61 +235,211 @@ export class Document extends SelfExplore {
 		if ('only coloration' === level) return null;
 
 		const headerProvidedVersion = providedVersion(cleanedText.slice(0, cleanedText.indexOf("__lua__")));
-		this.parseOptions.luaVersion = ("PICO-8-" + (!headerProvidedVersion
-			? docSettings?.parse.defaultApiVersion
-			: nearestParserVersion(headerProvidedVersion)
-		)) as LuaVersion;
-
+		this.parseOptions.luaVersion = headerVersion(headerProvidedVersion, docSettings?.parse.defaultApiVersion);
+
+		// (a cartridge without version gets one, as the second line of its header)
+		const fileVersion = !headerProvidedVersion && hasCartridgeHeader(cleanedText)
+			? headerFileVersion(this.parseOptions.luaVersion!.replace("PICO-8-", ""))
+			: undefined;
+		const fix: DiagnosticFix | undefined = undefined === fileVersion ? undefined : {
+			title: `Add 'version ${fileVersion}' to the header`,
+			edits: [{ range: { start: { line: 1, character: 0 }, end: { line: 1, character: 0 } }, newText: `version ${fileVersion}\n` }],
+		};
 		includesDiagnostics.push({
 			message: `assuming version '${this.parseOptions.luaVersion}' ${!headerProvidedVersion ? "(none found in header)" : "from header"}`,
 			range: {start:{line:0,character:0},end:{line:0,character:16}},
 			severity: DiagnosticSeverity.Hint,
+			code: 'version',
+			data: fix,
 		});
 
-		{
-			const p = cleanedText.indexOf('p');
-			const n = cleanedText.indexOf('\n');
-			const h = "pico-8 cartridge";
-			this.parseOptions.ignoreStrictP8FileFormat = n < p || cleanedText.slice(p, p + h.length) !== h;
-		}
+		this.parseOptions.ignoreStrictP8FileFormat = !hasCartridgeHeader(cleanedText);
+
+		const included: Document[] = [];
+		for (const it of toInclude)
+			included.push(await this.manager.include(it.uri, it.content, it.hasValidHeader, this.parseOptions.luaVersion));
+
+		console.log("======= Parsing document =======");
+		this.reset();
+		const { chunk, diagnostics: syntaxDiagnostics } = parseRecovering(cleanedText, this.parseOptions);
+		if (syntaxDiagnostics.length) console.log(`Recovered from ${syntaxDiagnostics.length} syntax error(s)`);
+		this.ast = chunk;
+		included.forEach(it => this.mergeAliases(it));
+		this.docGather();
+		this.suppressionGather();
+		await this.defines();
+		included.forEach(it => this.merge(it));
+		this.explore();
+		this.diagnostics.push(...syntaxDiagnostics);
+		this.diagnostics.push(...this.diagnoseApi(headerProvidedVersion ?? docSettings?.parse.defaultApiVersion));
+		this.diagnostics.push(...diagnoseUnused(this.ast, this.lutScopes));
+		this.count(text, cleanedText);
+		console.log("------------- done -------------");
+
+		// included code counts as if it was in place of the directive
+		this.budget = measure(
+			[this.code, ...included.map(it => it.code)].join("\n"),
+			included.reduce((acc, cur) => acc + cur.tokens, this.tokens),
+		);
+		const luaHeader = this.cartridge?.sections.find(it => 'lua' === it.name)?.header;
+		const budgetDiagnostics = undefined === luaHeader ? [] : diagnoseBudget(this.budget, {
+			start: { line: luaHeader, character: 0 },
+			end: { line: luaHeader, character: "__lua__".length },
+		});
 
-		try {
-			this.backup();
-			console.log("======= Parsing document =======");
-			this.reset();
-			this.ast = parseLua(cleanedText, this.parseOptions);
-			await this.defines();
-			this.explore();
-			console.log("------------- done -------------");
-		} catch (err) {
-			this.restore();
-			console.log("Parsing failed, restoring backup");
-			if (err instanceof ParseError) {
-				const line = err.line-1;
-				const character = err.column;
-				this.diagnostics.push({
-					message: `${err.name}: ${err.message}`,
-					range: {
-						start: { line, character },
-						end: { line, character },
-					},
+		if ('no diagnostics' === level) return null;
+		const diagnostics = this.suppress([...includesDiagnostics, ...this.cartridge?.diagnostics ?? [], ...budgetDiagnostics, ...this.diagnostics]);
+		return applyRules(diagnostics, docSettings?.parse.rules);
+	}
+
+	/**
+	 * diagnostics for the uses of the API which are not available in the
+	 * `version` of PICO-8 or are deprecated (not if it was redefined, eg.
+	 * a polyfill for an older version)
+	 */
+	private diagnoseApi(version: string | undefined) {
+		const diagnostics: Diagnostic[] = [];
+		const variables = this.globalScope.variables;
+		for (const name in variables) {
+			const variable = variables[name];
+			if ('api' !== variable?.predefined || 1 < variable.writes.filter(it => it).length) continue;
+
+			const uses = variable.ranges.filter((_, k) => !variable.writes[k]);
+			uses.forEach(range => {
+				if (version && variable.since && compareVersions(version, variable.since) < 0) diagnostics.push({
+					message: `'${name}' is only available from PICO-8 ${variable.since} (cartridge is for ${version})`,
+					range,
+					severity: DiagnosticSeverity.Warning,
+					code: 'api-version',
 				});
-			} else throw err;
-			console.log("------------- gone -------------");
+				else if (version && variable.until && 0 <= compareVersions(version, variable.until)) diagnostics.push({
+					message: `'${name}' was removed in PICO-8 ${variable.until} (cartridge is for ${version})`,
+					range,
+					severity: DiagnosticSeverity.Warning,
+					code: 'api-version',
+				});
+				const fix: DiagnosticFix | undefined = !variable.replacement ? undefined : {
+					title: `Replace with '${variable.replacement}'`,
+					edits: [{ range, newText: variable.replacement }],
+				};
+				if (variable.deprecated) diagnostics.push({
+					message: `'${name}' is deprecated` + (variable.replacement ? `, use '${variable.replacement}' instead` : ""),
+					range,
+					severity: DiagnosticSeverity.Hint,
+					code: 'deprecated',
+					tags: [DiagnosticTag.Deprecated],
+					data: fix,
+				});
+			});
 		}
+		return diagnostics;
+	}
 
-		if ('no diagnostics' === level) return null;
-		return [...includesDiagnostics, ...this.diagnostics];
+	/**
+	 * (for an included file) explores its content, only to know of its globals
+	 * 
+	 * nested `#include`s are not resolved, as PICO-8 does not either
+	 */
+	async handleOnInclude(content: string, hasValidHeader: boolean, luaVersion?: LuaVersion) {
+		this.parseOptions.luaVersion = luaVersion;
+		this.parseOptions.ignoreStrictP8FileFormat = !hasValidHeader;
+
+		const cleanedText = content.replace(/^([ \t]*)#include/gm, "$1--nclude");
+
+		console.log("======= Parsing included =======");
+		this.cartridge = hasValidHeader ? new Cartridge(content) : undefined;
+		this.reset();
+		this.ast = parseRecovering(cleanedText, this.parseOptions).chunk;
+		this.docGather();
+		await this.defines();
+		this.explore();
+		this.count(content, cleanedText);
+		console.log("------------- done -------------");
+	}
+
+	/**
+	 * counts the code and tokens (once explored), see `handleOnBudget`
+	 * 
+	 * @param cleanedText as was parsed
+	 */
+	private count(text: string, cleanedText: string) {
+		this.code = text
+			.split("\n")
+			.filter((line, k) => this.inLua(k) && !/^\s*#include/.test(line))
+			.join("\n");
+		this.tokens = countTokens(this.ast, cleanedText, line => this.inLua(line));
+	}
+
+	/**
+	 * (for a file of the workspace, not necessarily opened) explores its content
+	 * the same way as an included file, only to know of its symbols
+	 */
+	async handleOnIndex(content: string) {
+		const docSettings = await this.manager.settings.getDocumentSettings(this.uri);
+		const headerProvidedVersion = providedVersion(content.slice(0, content.indexOf("__lua__")));
+
+		await this.handleOnInclude(content, hasCartridgeHeader(content), headerVersion(headerProvidedVersion, docSettings?.parse.defaultApiVersion));
+	}
+
+	/**
+	 * declares the globals from an included document (see `handleOnInclude`)
+	 * into this document's global scope
+	 */
+	private merge(included: Document) {
+		const nowhere = locToRange(undefined);
+		const variables = included.globalScope.variables;
+		for (const name in variables) {
+			const variable = variables[name];
+			if (!variable || variable.predefined || !Object.prototype.hasOwnProperty.call(variables, name)) continue;
+
+			this.globalScope.variables[name] = {
+				types: [variable.types[0]],
+				ranges: [nowhere],
+				scopes: [this.globalScope],
+				writes: [true],
+				doc: variable.doc,
+				included: {
+					uri: included.uri,
+					ranges: variable.ranges.filter((it, k) => variable.writes[k] && !rangeEquals(it, nowhere)),
+				},
+			};
+		}
+	}
+
+	/**
+	 * declares the type aliases from an included document (see `handleOnInclude`)
+	 */
+	private mergeAliases(included: Document) {
+		for (const name in included.aliases) {
+			const it = included.aliases[name];
+			if (it && !this.aliases[name]) this.aliases[name] = { ...it, uri: it.uri ?? included.uri };
+		}
 	}
 
 	handleOnHover(range: Range): Hover | null {
 		const found = this.findVariable(range.start);
 		if (!found) return null;
 
+		let value = representVariableHover(found.scope.tag, found.name, found.type, found.doc);
+
+		const included = found.variable?.included;
+		if (included?.ranges.length) {
+			const declaration = included.ranges[included.ranges.length-1].start;
+			const name = included.uri.slice(included.uri.lastIndexOf('/') + 1);
+			value+= `\n\n_from [${name}:${declaration.line+1}](${included.uri}#L${declaration.line+1})_`;
+		}
+
+		// preview of the sprites for calls to the API with constant arguments
+		const call = this.lutCalls[`:${range.start.line}:${range.start.character}`];
+		if (call && this.cartridge && 'api' === found.variable?.predefined) {
+			const preview = representSpriteHover(this.cartridge, call.name, call.args);
+			if (preview) value+= "\n\n" + preview;
+		}
+
 		return {
 			contents: {
 				kind: 'markdown',
-				value: representVariableHover(found.scope.tag, found.name, found.type, found.doc),
+				value,
 			},
 		};
 	}
@@ -210,13 +448,147 @@ export class Document extends SelfExplore {
 		return this.symbols;
 	}
 
+	/**
+	 * formats the `__lua__` sections (or only the statements in `range`),
+	 * nothing is done if the code has syntax errors
+	 */
+	handleOnFormatting(text: string, options: FormatOptions, range?: Range): TextEdit[] | null {
+		const cleanedText = text.replace(/^([ \t]*)#include/gm, "$1--nclude");
+
+		let chunk;
+		try {
+			chunk = parseLua(cleanedText, this.parseOptions);
+		} catch (err) {
+			console.log(`Not formatting: ${err}`);
+			return null;
+		}
+
+		const spans = this.cartridge?.sections.filter(it => 'lua' === it.name)
+			?? [{ first: 0, last: text.split("\n").length-1 }];
+		return format(chunk, text, spans, options, range);
+	}
+
+	/**
+	 * a minified copy of the document (see `minify.ts`), where the locals
+	 * are renamed and, if asked, the globals and table fields too;
+	 * nothing is done if the code has syntax errors
+	 */
+	handleOnMinify(text: string, options: MinifyOptions): MinifyResult | null {
+		const cleanedText = text.replace(/^([ \t]*)#include/gm, "$1--nclude");
+
+		let chunk;
+		try {
+			chunk = parseLua(cleanedText, this.parseOptions);
+		} catch (err) {
+			console.log(`Not minifying: ${err}`);
+			return null;
+		}
+
+		const notes: string[] = [];
+		if (options.globals && this.includes.length)
+			notes.push("globals were not renamed as they may be used by the included files");
+
+		const isRenamable = (variable: LuaVariable | undefined, name: string) => {
+			// the implicit parameter of methods cannot be renamed
+			if (!variable || variable.predefined || variable.included || 'self' === name) return false;
+			if (variable !== this.globalScope.variables[name]) return true;
+			return options.globals && !this.includes.length && !CALLBACKS.includes(name);
+		};
+
+		// each variable (or field key) with where it appears
+		const targets = new Map<LuaVariable | string, string[]>();
+		const taken = new Set<string>();
+		for (const name in this.globalScope.variables)
+			if (!isRenamable(this.globalScope.variables[name], name)) taken.add(name);
+		for (const startPos in this.lutVariables) {
+			const it = this.lutVariables[startPos];
+			let target: LuaVariable | string | undefined;
+			if (it.field) {
+				if (options.fields && !it.name.startsWith("__")) target = "." + it.name;
+			} else if (it.variable && it.variable !== this.globalScope.variables[it.name]) {
+				if (isRenamable(it.variable, it.name)) target = it.variable;
+			} else if (isRenamable(this.globalScope.variables[it.name], it.name)) {
+				// by name, as a global can be used before being declared (eg. in a function)
+				target = it.name;
+			}
+			if (!target) {
+				taken.add(it.name);
+				continue;
+			}
+			const found = targets.get(target);
+			if (found) found.push(startPos);
+			else targets.set(target, [startPos]);
+		}
+
+		// the most used get the shortest names
+		const names: { [startPos: string]: string } = {};
+		const generator = shortNames(taken);
+		[...targets.values()]
+			.sort((a, b) => b.length - a.length)
+			.forEach(positions => {
+				const name = generator.next().value as string;
+				positions.forEach(it => names[it] = name);
+			});
+
+		const spans = this.cartridge?.sections.filter(it => 'lua' === it.name)
+			?? [{ first: 0, last: text.split("\n").length-1 }];
+		const minified = minify(chunk, text, spans, names);
+
+		// counted the same as this document
+		const after = new Document(this.uri, this.manager);
+		const cleanedMinified = minified.replace(/^([ \t]*)#include/gm, "$1--nclude");
+		try {
+			after.cartridge = this.cartridge && new Cartridge(minified);
+			after.ast = parseLua(cleanedMinified, this.parseOptions);
+			after.count(minified, cleanedMinified);
+		} catch (err) {
+			console.log(`Minified code does not parse: ${err}`);
+			return null;
+		}
+
+		return {
+			text: minified,
+			before: { tokens: this.tokens, characters: this.code.length },
+			after: { tokens: after.tokens, characters: after.code.length },
+			notes,
+		};
+	}
+
+	handleOnBudget(): { budget: Budget, limits: Budget } | null {
+		if (!this.budget) return null;
+		return { budget: this.budget, limits: LIMITS };
+	}
+
+	/**
+	 * @param text the current content of the document
+	 */
+	handleOnFoldingRanges(text: string): FoldingRange[] {
+		return foldingRanges(this.ast, text.split(/\r?\n/), this.cartridge);
+	}
+
+	handleOnWorkspaceSymbol(): SymbolInformation[] {
+		const result: SymbolInformation[] = [];
+		const flatten = (symbols: DocumentSymbol[], containerName?: string) => symbols.forEach(it => {
+			result.push({
+				name: it.name,
+				kind: it.kind,
+				tags: it.tags,
+				location: { uri: this.uri, range: it.selectionRange },
+				containerName,
+			});
+			if (it.children) flatten(it.children, it.name);
+		});
+		flatten(this.symbols);
+		return result;
+	}
+
 	handleOnCompletion(position: Position, identifier: string, context?: CompletionContext): CompletionItem[] | null {
 		if (CompletionTriggerKind.TriggerCharacter === context?.triggerKind) {
 			let found: LuaTable | undefined;
 
 			if (identifier) {
 				const scope = this.findScope(position);
-				if (!scope) return null; // XXX: always false because doesn't account for __lua__ section interruptions (ie. in __gfx__ is still in a scope)
+				if (!scope) return null;
 
 				const variable = scope.scope.variables[identifier];
 				if (!variable) return null;
@@ -243,16 +615,19 @@ export class Document extends SelfExplore {
 				found = table.type;
 			}
 
+			// after a `:` only the methods (inherited ones included)
+			const methods = ':' === context.triggerCharacter;
 			return Object
-				.entries(found.entries)
+				.entries(fieldsOf(found))
+				.filter(([, type]) => !methods || isLuaFunction(type))
 				.map(([key, type]) => ({
 					label: key,
-					kind: CompletionItemKind.Field,
+					kind: methods ? CompletionItemKind.Method : CompletionItemKind.Field,
 					detail: represent(type),
 				}));
 		} else {
 			const found = this.findScope(position);
-			if (!found) return null; // XXX: always false because doesn't account for __lua__ section interruptions (ie. in __gfx__ is still in a scope)
+			if (!found) return null;
 
 			const list: CompletionItem[] = [];
 			for (const label in found.scope.variables) {
@@ -305,7 +680,7 @@ export class Document extends SelfExplore {
 
 		if (identifier && ')' !== identifier) {
 			const scope = this.findScope(position);
-			if (!scope) return null; // XXX: always false because doesn't account for __lua__ section interruptions (ie. in __gfx__ is still in a scope)
+			if (!scope) return null;
 
 			const variable = scope.scope.variables[identifier];
 			if (!variable) return null;
@@ -347,39 +722,151 @@ export class Document extends SelfExplore {
 	handleOnDocumentLinks(): DocumentLink[] {
 		return this.includes;
 	}
-//#endregion
 
-//#region backup LUTs for parse failures
-	private lutBackupVariables?: LUTVariables;
-	private lutBackupScopes?: LUTScopes;
-	private lutBackupFunctions?: LUTFunctions;
-	private lutBackupTables?: LUTTables;
+	handleOnDefinition(range: Range): Location[] | null {
+		const found = this.findAssignments(range.start);
+		if (!found) return null;
+
+		// locals are defined where declared, globals
+		// and table fields by every assignments
+		const ranges = found.local ? found.ranges.slice(-1) : found.ranges;
+		const locations = uniqueRanges(ranges)
+			.reverse()
+			.map(range => ({ uri: this.uri, range }));
+
+		// included globals come first, as they are declared there
+		const included = found.included;
+		if (!included) return locations;
+		return uniqueRanges(included.ranges)
+			.reverse()
+			.map(range => ({ uri: included.uri, range }))
+			.concat(locations);
+	}
+
+	handleOnDeclaration(range: Range): Location | null {
+		const found = this.findAssignments(range.start);
+		if (!found) return null;
+
+		const included = found.included;
+		if (included) return { uri: included.uri, range: included.ranges[included.ranges.length-1] };
+		return { uri: this.uri, range: found.ranges[found.ranges.length-1] };
+	}
+
+	/**
+	 * where the alias(es) naming the type are declared (or those in a union)
+	 */
+	handleOnTypeDefinition(range: Range): Location[] | null {
+		const found = this.findVariable(range.start);
+		if (!found) return null;
+
+		const types = isLuaTypeAlias(found.type) ? [found.type] : flattenBinaryTree<'or', LuaType>(found.type, 'or') ?? [found.type];
+		const locations = types.flatMap(it => {
+			const declared = isLuaTypeAlias(it) && this.aliases[it.alias];
+			return declared ? [{ uri: declared.uri ?? this.uri, range: declared.range }] : [];
+		});
+		return locations.length ? locations : null;
+	}
+
+	handleOnReferences(range: Range, includeDeclaration: boolean): Location[] | null {
+		const found = this.findOccurrences(range.start);
+		if (!found) return null;
+
+		const declaration = this.findAssignments(range.start)?.ranges.slice(-1)[0];
+		return uniqueRanges(found.ranges)
+			.filter(it => includeDeclaration || !declaration || !rangeEquals(it, declaration))
+			.reverse()
+			.map(range => ({ uri: this.uri, range }));
+	}
+
+	handleOnSemanticTokens(range?: Range): SemanticTokens {
+		const builder = new SemanticTokensBuilder();
+
+		Object.values(this.lutVariables)
+			.filter(it => !range || rangeContains(range, it.range.start))
+			.sort((a, b) => a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character)
+			.forEach(it => {
+				const token = classify(it, this.lutFields);
+				if (!token) return;
+
+				const { start, end } = it.range;
+				builder.push(start.line, start.character, end.character - start.character, ...token);
+			});
+
+		return builder.build();
+	}
+
+	handleOnPrepareRename(range: Range): Range | ResponseError<void> | null {
+		const found = this.findOccurrences(range.start);
+		if (!found) return null;
+
+		if (found.predefined)
+			return new ResponseError(ErrorCodes.InvalidRequest, `cannot rename '${found.name}', it is pre-defined (${'api' === found.predefined ? "PICO-8 API" : "from settings"})`);
+		if (found.included)
+			return new ResponseError(ErrorCodes.InvalidRequest, `cannot rename '${found.name}', it is declared in an included file`);
+		if (found.implicit)
+			return new ResponseError(ErrorCodes.InvalidRequest, `cannot rename '${found.name}', it is implicit`);
+		return found.range;
+	}
+
+	handleOnRename(range: Range, newName: string): WorkspaceEdit | ResponseError<void> | null {
+		const found = this.findOccurrences(range.start);
+		if (!found) return null;
 
-	private backup() {
-		// with how super.reset() works, storing a simple reference
-		// to the old tables is sufficient as a backup
-		this.lutBackupVariables = this.lutVariables;
-		this.lutBackupScopes = this.lutScopes;
-		this.lutBackupFunctions = this.lutFunctions;
-		this.lutBackupTables = this.lutTables;
+		if (found.predefined || found.included || found.implicit)
+			return new ResponseError(ErrorCodes.InvalidRequest, `cannot rename '${found.name}', it is not declared in this file`);
+		if (!isValidIdentifier(newName))
+			return new ResponseError(ErrorCodes.InvalidParams, `'${newName}' is not a valid identifier`);
+		if (newName !== found.name && this.isNameTaken(found, newName))
+			return new ResponseError(ErrorCodes.InvalidParams, `cannot rename '${found.name}' to '${newName}', it is already used where '${found.name}' is visible`);
+
+		return {
+			changes: {
+				[this.uri]: uniqueRanges(found.ranges).map(range => ({ range, newText: newName })),
+			},
+		};
 	}
 
-	private restore() {
-		// note: if undefined here, that means the doc was never parsed...
-		this.lutVariables = this.lutBackupVariables!;
-		this.lutScopes = this.lutBackupScopes!;
-		this.lutFunctions = this.lutBackupFunctions!;
-		this.lutTables = this.lutBackupTables!;
+	/**
+	 * the quick fixes of the diagnostics (see `DiagnosticFix`)
+	 */
+	handleOnCodeAction(diagnostics: Diagnostic[]): CodeAction[] {
+		return diagnostics.flatMap(diagnostic => {
+			const fix = diagnostic.data as DiagnosticFix | undefined;
+			if (!fix?.title) return [];
+
+			const edit = fix.rename
+				? this.handleOnRename(fix.rename.range, fix.rename.newName)
+				: { changes: { [this.uri]: fix.edits ?? [] } };
+			if (!edit || edit instanceof ResponseError) return [];
+
+			return [{
+				title: fix.title,
+				kind: CodeActionKind.QuickFix,
+				diagnostics: [diagnostic],
+				isPreferred: true,
+				edit,
+			}];
+		});
 	}
 //#endregion
 
 //#region lookup LUTs
+	/**
+	 * whether the line is Lua code (ie. in a `__lua__` section of a cartridge),
+	 * every language features should not provide anything elsewhere
+	 */
+	private inLua(line: number) {
+		return !this.cartridge || 'lua' === this.cartridge.sectionAt(line)?.name;
+	}
+
 	private findVariable(position: Position) {
+		if (!this.inLua(position.line)) return;
 		const it = this.lutVariables[`:${position.line}:${position.character}`];
 		if (it) return it;
 	}
 
 	private findScope(position: Position) {
+		if (!this.inLua(position.line)) return;
 		// the scope LUT is built in order of appearance:
 		// parents scopes always come first; this aims at
 		// finding the smallest scope containing the `position`,
@@ -397,14 +884,93 @@ export class Document extends SelfExplore {
 	}
 
 	private findFunction(position: Position) {
+		if (!this.inLua(position.line)) return;
 		const it = this.lutFunctions[`:${position.line}:${position.character-1}`];
 		if (it) return it;
 	}
 
 	private findTable(position: Position) {
+		if (!this.inLua(position.line)) return;
 		const it = this.lutTables[`:${position.line}:${position.character}`];
 		if (it) return it;
 	}
+
+	/**
+	 * every ranges where the variable or table field at `position`
+	 * appears, last in first (ie. declaration is last)
+	 * 
+	 * the pre-defined globals (eg. API) are not located anywhere,
+	 * so the corresponding range is removed
+	 */
+	private findOccurrences(position: Position) {
+		const found = this.findVariable(position);
+		if (!found) return;
+
+		const occurrences = found.table
+			? this.lutFields.get(found.table)?.[found.name]
+			: found.variable;
+		if (!occurrences) return;
+
+		const nowhere = locToRange(undefined);
+		const ranges: Range[] = [];
+		const writes: boolean[] = [];
+		occurrences.ranges.forEach((it, k) => {
+			if (rangeEquals(it, nowhere)) return;
+			ranges.push(it);
+			writes.push(occurrences.writes[k]);
+		});
+
+		return {
+			range: found.range,
+			name: found.name,
+			ranges,
+			writes,
+			local: !found.table && 'global' !== found.scope.tag,
+			predefined: found.variable?.predefined,
+			included: found.variable?.included,
+			implicit: found.variable?.implicit,
+			variable: found.variable,
+			table: found.table,
+		};
+	}
+
+	/**
+	 * whether renaming the occurrences to `newName` would capture or shadow an other
+	 * variable (or table field), ie. if `newName` refers to something else where
+	 * any occurrence is, or appears anywhere the variable is visible
+	 */
+	private isNameTaken(found: NonNullable<ReturnType<Document['findOccurrences']>>, newName: string) {
+		if (found.table) return !!this.lutFields.get(found.table)?.[newName];
+
+		const variable = found.variable;
+		const taken = found.ranges.some(range => {
+			const other = this.findScope(range.start)?.scope.variables[newName];
+			return !!other && other !== variable;
+		});
+		if (taken) return true;
+
+		// (for a local, the scope it was declared in, otherwise the whole file)
+		const region = !found.local ? undefined : this.lutScopes.find(it =>
+			Object.prototype.hasOwnProperty.call(it.scope.variables, found.name) && variable === it.scope.variables[found.name]
+		)?.range;
+		return Object.values(this.lutVariables).some(it =>
+			newName === it.name && !it.field && (!region || rangeContains(region, it.range.start))
+		);
+	}
+
+	/**
+	 * every ranges where the variable or table field at `position`
+	 * is assigned to, last in first (ie. declaration is last)
+	 */
+	private findAssignments(position: Position) {
+		const found = this.findOccurrences(position);
+		if (!found) return;
+
+		const ranges = found.ranges.filter((_, k) => found.writes[k]);
+		if (!ranges.length && !found.included?.ranges.length) return;
+
+		return { ranges, local: found.local, included: found.included };
+	}
 //#endregion
 
 }
@@ -412,11 +978,48 @@ export class Document extends SelfExplore {
 export class DocumentsManager extends TextDocuments<TextDocument> {
 
 	private cache: Map<string, Document>;
+	private includeCache: Map<string, { content: string, luaVersion?: LuaVersion, document: Document }>;
 	private connection?: Connection;
 
 	constructor(public settings: SettingsManager) {
 		super(TextDocument);
 		this.cache = new Map();
+		this.includeCache = new Map();
+	}
+
+	/**
+	 * get the explored document for an included file,
+	 * only re-exploring it if its content changed
+	 */
+	async include(uri: string, content: string, hasValidHeader: boolean, luaVersion?: LuaVersion) {
+		const cached = this.includeCache.get(uri);
+		if (cached && content === cached.content && luaVersion === cached.luaVersion)
+			return cached.document;
+
+		const document = new Document(uri, this);
+		await document.handleOnInclude(content, hasValidHeader, luaVersion);
+		this.includeCache.set(uri, { content, luaVersion, document });
+		return document;
+	}
+
+	/**
+	 * explore a file of the workspace (see `WorkspaceIndex`)
+	 * 
+	 * @returns its symbols
+	 */
+	async index(uri: string, content: string) {
+		const document = new Document(uri, this);
+		await document.handleOnIndex(content);
+		return document.handleOnWorkspaceSymbol();
+	}
+
+	/**
+	 * explore again every opened document (eg. when a project file changed)
+	 */
+	async revalidate() {
+		this.includeCache.clear();
+		for (const document of this.all())
+			await this.handleOnDidChangeContent({ document });
 	}
 
 	/**
@@ -430,7 +1033,12 @@ export class DocumentsManager extends TextDocuments<TextDocument> {
 	 * from `DocumentsManager`:
 	 * 
 	 * `onHover`, `onDocumentSymbol` , `onCompletion`, `onCompletionResolve`,
-	 * `onDocumentHighlight` and `onSignatureHelp`
+	 * `onDocumentHighlight`, `onSignatureHelp`, `onDocumentLinks`,
+	 * `onDefinition`, `onDeclaration`, `onTypeDefinition`, `onReferences`,
+	 * `onPrepareRename`, `onRenameRequest`, `onCodeAction`, `onFoldingRanges`, `onDocumentFormatting`, `onDocumentRangeFormatting`,
+	 * `languages.semanticTokens.on`/`onRange` and
+	 * the custom request `pico8code/budget` (with a `TextDocumentIdentifier`)
+	 * and `onExecuteCommand` (for `pico8code.server.minify`)
 	 */
 	listen(connection: Connection) {
 		super.listen(connection);
@@ -453,6 +1061,20 @@ export class DocumentsManager extends TextDocuments<TextDocument> {
 		connection.onDocumentHighlight(wrap(this.handleOnDocumentHighlight));
 		connection.onSignatureHelp(wrap(this.handleOnSignatureHelp));
 		connection.onDocumentLinks(wrap(this.handleOnDocumentLinks));
+		connection.onDefinition(wrap(this.handleOnDefinition));
+		connection.onDeclaration(wrap(this.handleOnDeclaration));
+		connection.onTypeDefinition(wrap(this.handleOnTypeDefinition));
+		connection.onReferences(wrap(this.handleOnReferences));
+		connection.onPrepareRename(wrap(this.handleOnPrepareRename));
+		connection.onRenameRequest(wrap(this.handleOnRename));
+		connection.onCodeAction(wrap(this.handleOnCodeAction));
+		connection.onFoldingRanges(wrap(this.handleOnFoldingRanges));
+		connection.languages.semanticTokens.on(wrap(this.handleOnSemanticTokens));
+		connection.languages.semanticTokens.onRange(wrap(this.handleOnSemanticTokensRange));
+		connection.onDocumentFormatting(wrap(this.handleOnDocumentFormatting));
+		connection.onDocumentRangeFormatting(wrap(this.handleOnDocumentRangeFormatting));
+		connection.onRequest('pico8code/budget', wrap(this.handleOnBudget));
+		connection.onExecuteCommand(wrap(this.handleOnExecuteCommand));
 	}
 
 //#region handlers (dispatches to the appropriate Document's handler)
@@ -485,6 +1107,92 @@ export class DocumentsManager extends TextDocuments<TextDocument> {
 		return document?.handleOnDocumentSymbol();
 	}
 
+	/**
+	 * the indentation and such, from the settings and the editor's options
+	 */
+	private async formatOptions(uri: string, options: FormattingOptions): Promise<FormatOptions> {
+		const docSettings = await this.settings.getDocumentSettings(uri);
+		const { indentation, indentSize, lineWidth } = docSettings.format;
+		const indent = 'tabs' === indentation || 'editor' === indentation && !options.insertSpaces
+			? "\t"
+			: " ".repeat('spaces' === indentation ? indentSize : options.tabSize);
+		return { indent, lineWidth };
+	}
+
+	private async handleOnDocumentFormatting(documentFormattingParams: DocumentFormattingParams) {
+		const uri = documentFormattingParams.textDocument.uri;
+
+		const document = this.cache.get(uri);
+		if (!document) return null;
+
+		const textDocument = this.get(uri);
+		if (!textDocument) return null;
+
+		const options = await this.formatOptions(uri, documentFormattingParams.options);
+		return document.handleOnFormatting(textDocument.getText(), options);
+	}
+
+	private async handleOnDocumentRangeFormatting(documentRangeFormattingParams: DocumentRangeFormattingParams) {
+		const uri = documentRangeFormattingParams.textDocument.uri;
+
+		const document = this.cache.get(uri);
+		if (!document) return null;
+
+		const textDocument = this.get(uri);
+		if (!textDocument) return null;
+
+		const options = await this.formatOptions(uri, documentRangeFormattingParams.options);
+		return document.handleOnFormatting(textDocument.getText(), options, documentRangeFormattingParams.range);
+	}
+
+	private handleOnBudget(textDocumentIdentifier: TextDocumentIdentifier) {
+		const document = this.cache.get(textDocumentIdentifier.uri);
+		return document?.handleOnBudget() ?? null;
+	}
+
+	private handleOnFoldingRanges(foldingRangeParams: FoldingRangeParams) {
+		const uri = foldingRangeParams.textDocument.uri;
+
+		const document = this.cache.get(uri);
+		if (!document) return null;
+
+		const textDocument = this.get(uri);
+		if (!textDocument) return null;
+
+		return document.handleOnFoldingRanges(textDocument.getText());
+	}
+
+	/**
+	 * `pico8code.server.minify` (with the document's uri and `MinifyOptions`)
+	 */
+	private handleOnExecuteCommand(executeCommandParams: ExecuteCommandParams) {
+		switch (executeCommandParams.command) {
+			case 'pico8code.server.minify': {
+				const [uri, options] = executeCommandParams.arguments as [string, MinifyOptions];
+
+				const document = this.cache.get(uri);
+				if (!document) return null;
+
+				const textDocument = this.get(uri);
+				if (!textDocument) return null;
+
+				return document.handleOnMinify(textDocument.getText(), options)
+					?? new ResponseError(ErrorCodes.InvalidRequest, "cannot minify code with syntax errors");
+			}
+		}
+		return new ResponseError(ErrorCodes.MethodNotFound, `unknown command '${executeCommandParams.command}'`);
+	}
+
+	/**
+	 * (not an handler on its own, see `WorkspaceIndex`)
+	 * 
+	 * @returns the symbols of the document if it is opened
+	 */
+	handleOnWorkspaceSymbol(uri: string) {
+		if (!this.get(uri)) return;
+		return this.cache.get(uri)?.handleOnWorkspaceSymbol();
+	}
+
 	private handleOnCompletion(completionParams: CompletionParams) {
 		const position = completionParams.position;
 		const uri = completionParams.textDocument.uri;
@@ -546,6 +1254,116 @@ export class DocumentsManager extends TextDocuments<TextDocument> {
 		const document = this.cache.get(documentLinkParams.textDocument.uri);
 		return document?.handleOnDocumentLinks();
 	}
+
+	private handleOnDefinition(definitionParams: DefinitionParams) {
+		const position = definitionParams.position;
+		const uri = definitionParams.textDocument.uri;
+
+		// the one instance of the class above (has the AST)
+		const document = this.cache.get(uri);
+		if (!document) return null;
+
+		// the one from the languageserver module (has the text)
+		const textDocument = this.get(uri);
+		if (!textDocument) return null;
+
+		return document.handleOnDefinition(findWordRange(textDocument, position));
+	}
+
+	private handleOnDeclaration(declarationParams: DeclarationParams) {
+		const position = declarationParams.position;
+		const uri = declarationParams.textDocument.uri;
+
+		// the one instance of the class above (has the AST)
+		const document = this.cache.get(uri);
+		if (!document) return null;
+
+		// the one from the languageserver module (has the text)
+		const textDocument = this.get(uri);
+		if (!textDocument) return null;
+
+		return document.handleOnDeclaration(findWordRange(textDocument, position));
+	}
+
+	private handleOnTypeDefinition(typeDefinitionParams: TypeDefinitionParams) {
+		const position = typeDefinitionParams.position;
+		const uri = typeDefinitionParams.textDocument.uri;
+
+		// the one instance of the class above (has the AST)
+		const document = this.cache.get(uri);
+		if (!document) return null;
+
+		// the one from the languageserver module (has the text)
+		const textDocument = this.get(uri);
+		if (!textDocument) return null;
+
+		return document.handleOnTypeDefinition(findWordRange(textDocument, position));
+	}
+
+	private handleOnReferences(referenceParams: ReferenceParams) {
+		const position = referenceParams.position;
+		const uri = referenceParams.textDocument.uri;
+
+		// the one instance of the class above (has the AST)
+		const document = this.cache.get(uri);
+		if (!document) return null;
+
+		// the one from the languageserver module (has the text)
+		const textDocument = this.get(uri);
+		if (!textDocument) return null;
+
+		return document.handleOnReferences(findWordRange(textDocument, position), referenceParams.context.includeDeclaration);
+	}
+
+	private handleOnSemanticTokens(semanticTokensParams: SemanticTokensParams) {
+		const document = this.cache.get(semanticTokensParams.textDocument.uri);
+		return document?.handleOnSemanticTokens() ?? { data: [] };
+	}
+
+	private handleOnSemanticTokensRange(semanticTokensRangeParams: SemanticTokensRangeParams) {
+		const document = this.cache.get(semanticTokensRangeParams.textDocument.uri);
+		return document?.handleOnSemanticTokens(semanticTokensRangeParams.range) ?? { data: [] };
+	}
+
+	private handleOnPrepareRename(prepareRenameParams: PrepareRenameParams) {
+		const position = prepareRenameParams.position;
+		const uri = prepareRenameParams.textDocument.uri;
+
+		// the one instance of the class above (has the AST)
+		const document = this.cache.get(uri);
+		if (!document) return null;
+
+		// the one from the languageserver module (has the text)
+		const textDocument = this.get(uri);
+		if (!textDocument) return null;
+
+		return document.handleOnPrepareRename(findWordRange(textDocument, position));
+	}
+
+	private handleOnRename(renameParams: RenameParams) {
+		const position = renameParams.position;
+		const uri = renameParams.textDocument.uri;
+
+		// the one instance of the class above (has the AST)
+		const document = this.cache.get(uri);
+		if (!document) return null;
+
+		// the one from the languageserver module (has the text)
+		const textDocument = this.get(uri);
+		if (!textDocument) return null;
+
+		return document.handleOnRename(findWordRange(textDocument, position), renameParams.newName);
+	}
+
+	private handleOnCodeAction(codeActionParams: CodeActionParams) {
+		const uri = codeActionParams.textDocument.uri;
+
+		// the one instance of the class above (has the AST)
+		const document = this.cache.get(uri);
+		if (!document) return null;
+
+		return document.handleOnCodeAction(codeActionParams.context.diagnostics);
+	}
 //#endregion
 
 }
@@ -1,13 +1,19 @@
-import { createConnection, ProposedFeatures, DidChangeConfigurationNotification, TextDocumentSyncKind, InitializeResult } from 'vscode-languageserver/node';
+import { createConnection, ProposedFeatures, DidChangeConfigurationNotification, TextDocumentSyncKind, InitializeResult, CodeActionKind } from 'vscode-languageserver/node';
 
 import { SettingsManager } from './settings';
 import { DocumentsManager } from './documents';
+import { WorkspaceIndex } from './workspace';
+import { legend } from './document/semantic';
 
 // Include all preview / proposed LSP features.
 const connection = createConnection(ProposedFeatures.all);
 
 const settings = new SettingsManager();
 const documents = new DocumentsManager(settings);
+const workspace = new WorkspaceIndex(documents);
+
+// indexed once initialized
+let workspaceFolders: string[] = [];
 
 connection.onInitialize(params => {
 	const capabilities = params.capabilities;
@@ -18,6 +24,8 @@ connection.onInitialize(params => {
 	settings.hasWorkspaceFolderCapability = !!capabilities.workspace?.workspaceFolders;
 	settings.hasDiagnosticRelatedInformationCapability = !!capabilities.textDocument?.publishDiagnostics?.relatedInformation;
 
+	workspaceFolders = params.workspaceFolders?.map(it => it.uri) ?? (params.rootUri ? [params.rootUri] : []);
+
 	const result: InitializeResult = {
 		capabilities: {
 			textDocumentSync: TextDocumentSyncKind.Incremental,
@@ -33,11 +41,27 @@ connection.onInitialize(params => {
 				retriggerCharacters: [ ',' ],
 			},
 			documentLinkProvider: {},
+			definitionProvider: true,
+			declarationProvider: true,
+			typeDefinitionProvider: true,
+			referencesProvider: true,
+			workspaceSymbolProvider: true,
+			documentFormattingProvider: true,
+			documentRangeFormattingProvider: true,
+			renameProvider: { prepareProvider: true },
+			codeActionProvider: { codeActionKinds: [CodeActionKind.QuickFix] },
+			foldingRangeProvider: true,
+			executeCommandProvider: { commands: ['pico8code.server.minify'] },
+			semanticTokensProvider: {
+				legend,
+				full: true,
+				range: true,
+			},
 		},
 	};
 	if (settings.hasWorkspaceFolderCapability) {
 		result.capabilities.workspace = {
-			workspaceFolders: { supported: true },
+			workspaceFolders: { supported: true, changeNotifications: true },
 		};
 	}
 	return result;
@@ -48,13 +72,18 @@ connection.onInitialized(() => {
 		// Register for all configuration changes.
 		connection.client.register(DidChangeConfigurationNotification.type, undefined);
 	}
-	//if (settings.hasWorkspaceFolderCapability) {
-	//	//connection.workspace.onDidChangeWorkspaceFolders(event => {});
-	//}
+	if (settings.hasWorkspaceFolderCapability) {
+		connection.workspace.onDidChangeWorkspaceFolders(event => workspace.handleOnDidChangeWorkspaceFolders(event));
+	}
+	workspace.addFolders(workspaceFolders);
 });
 
-//connection.onDidChangeWatchedFiles(change => {});
+connection.onDidChangeWatchedFiles(change => {
+	if (settings.handleOnDidChangeWatchedFiles(change)) documents.revalidate();
+	return workspace.handleOnDidChangeWatchedFiles(change);
+});
 
 settings.listen(connection);
 documents.listen(connection);
+workspace.listen(connection);
 connection.listen();
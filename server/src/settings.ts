@@ -1,10 +1,27 @@
-import { Connection, DidChangeConfigurationParams } from 'vscode-languageserver';
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { Connection, DidChangeConfigurationParams, DidChangeWatchedFilesParams } from 'vscode-languageserver';
 
-interface Settings {
+export type RuleSeverity = 'off' | 'hint' | 'warning' | 'error';
+
+// as `name: type` (see `pico8code.parse.preDefinedGlobals`), or with a doc
+export type PreDefinedGlobal = string | { name: string, type: string, doc?: string };
+
+export interface Settings {
 	parse: {
 		dontBother: "all" | "no diagnostics" | "only coloration",
 		defaultApiVersion: '0.2.1',// | '0.2.2',
-		preDefinedGlobals: string[],
+		preDefinedGlobals: PreDefinedGlobal[],
+		// where to look for an included file not found next to the document
+		includePaths: string[],
+		// by the `code` of the diagnostics
+		rules: { [code: string]: RuleSeverity | undefined },
+	};
+	format: {
+		indentation: "editor" | "tabs" | "spaces",
+		indentSize: number,
+		lineWidth: number,
 	};
 	trace: {
 		server: 'off' | 'messages' | 'verbose',
@@ -16,6 +33,13 @@ const defaultSettings: Settings = {
 		dontBother: "all",
 		defaultApiVersion: '0.2.1',
 		preDefinedGlobals: [],
+		includePaths: [],
+		rules: {},
+	},
+	format: {
+		indentation: "editor",
+		indentSize: 1,
+		lineWidth: 80,
 	},
 	trace: {
 		server: 'verbose',
@@ -23,11 +47,17 @@ const defaultSettings: Settings = {
 };
 const propertiesSection = 'pico8code' as const;
 
+// the project configuration file, found in the directory of a document or any above
+export const PROJECT_FILE = '.pico8rc' as const;
+
 export class SettingsManager extends Map<string, Settings> {
 
 	private globalSettings = defaultSettings;
 	private connection?: Connection;
 
+	// by path of the file, `null` if it could not be read
+	private projects = new Map<string, Partial<Settings['parse']> | null>();
+
 	public hasConfigurationCapability = false;
 	public hasWorkspaceFolderCapability = false;
 	public hasDiagnosticRelatedInformationCapability = false;
@@ -50,7 +80,31 @@ export class SettingsManager extends Map<string, Settings> {
 		//documents.all().forEach(...);
 	}
 
+	/**
+	 * forgets about the project files which changed
+	 * 
+	 * @returns whether any did (ie. the documents should be revalidated)
+	 */
+	handleOnDidChangeWatchedFiles(change: DidChangeWatchedFilesParams) {
+		const changed = change.changes.filter(it => it.uri.endsWith('/' + PROJECT_FILE));
+		changed.forEach(it => this.projects.delete(fileURLToPath(it.uri)));
+		return 0 < changed.length;
+	}
+
+	/**
+	 * the settings for a document: those from its project file (if any, see
+	 * `PROJECT_FILE`) take precedence over the editor's, rule by rule for the
+	 * severities
+	 */
 	async getDocumentSettings(uri: string) {
+		const settings = await this.getEditorSettings(uri);
+		const project = this.findProject(uri);
+		if (!project) return settings;
+
+		return { ...settings, parse: { ...settings.parse, ...project, rules: { ...settings.parse.rules, ...project.rules } } };
+	}
+
+	private async getEditorSettings(uri: string) {
 		if (!this.hasConfigurationCapability)
 			return this.globalSettings;
 
@@ -67,4 +121,35 @@ export class SettingsManager extends Map<string, Settings> {
 		return result;
 	}
 
+	/**
+	 * the closest project file, walking up from the directory of the document
+	 * (if it cannot be read, there is none: the ones above are not used instead)
+	 * 
+	 * it is a JSON object with any of the `parse` settings (eg. `rules`), the
+	 * `includePaths` being relative to it
+	 */
+	private findProject(uri: string) {
+		if (!uri.startsWith("file://")) return;
+
+		for (let dir = dirname(fileURLToPath(uri));; dir = dirname(dir)) {
+			const path = join(dir, PROJECT_FILE);
+			if (!this.projects.has(path) && existsSync(path)) this.projects.set(path, this.readProject(path));
+
+			if (this.projects.has(path)) return this.projects.get(path) ?? undefined;
+			if (dirname(dir) === dir) return;
+		}
+	}
+
+	private readProject(path: string) {
+		try {
+			const project: Partial<Settings['parse']> = JSON.parse(readFileSync(path).toString());
+			if (project.includePaths) project.includePaths = project.includePaths.map(it => resolve(dirname(path), it));
+			console.log(`Using project file '${path}'`);
+			return project;
+		} catch (err) {
+			this.connection?.window.showWarningMessage(`Could not read project file '${path}': ${err}`);
+			return null;
+		}
+	}
+
 }
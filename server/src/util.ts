@@ -22,6 +22,8 @@ export function locToRange(loc: ast.Node['loc']): Range {
 
 /**
  * @used `documents.ts > Document{} > findScope()`
+ * @used `documents.ts > Document{} > handleOnSemanticTokens()`
+ * @used `document/ > unused.ts > diagnoseUnused()`
  */
 export function rangeContains(range: Range, position: Position) {
 	if (range.start.line < position.line && position.line < range.end.line)
@@ -35,6 +37,38 @@ export function rangeContains(range: Range, position: Position) {
 	return false;
 }
 
+/**
+ * @used `documents.ts > Document{} > findOccurrences()`
+ * @used `document/ > semantic.ts > classify()`
+ * @used `util.ts > uniqueRanges()`
+ */
+export function rangeEquals(a: Range, b: Range) {
+	return a.start.line === b.start.line
+		&& a.start.character === b.start.character
+		&& a.end.line === b.end.line
+		&& a.end.character === b.end.character;
+}
+
+/**
+ * removes duplicated ranges from a list, keeping the first occurrence
+ * 
+ * @used `documents.ts > Document{} > handleOnDefinition()`
+ */
+export function uniqueRanges(ranges: Range[]) {
+	return ranges.filter((it, k) => k === ranges.findIndex(other => rangeEquals(it, other)));
+}
+
+const LUA_KEYWORDS = ["and", "break", "do", "else", "elseif", "end", "false", "for", "function", "goto", "if", "in", "local", "nil", "not", "or", "repeat", "return", "then", "true", "until", "while"];
+
+/**
+ * a valid Lua name (that is not a reserved keyword)
+ * 
+ * @used `documents.ts > Document{} > handleOnRename()`
+ */
+export function isValidIdentifier(name: string) {
+	return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !LUA_KEYWORDS.includes(name);
+}
+
 /**
  * @used `documents.ts > DocumentsManager{} > handleOnHover()`
  */
@@ -113,7 +147,7 @@ export function delimitSubstring(str: string, open: string, close: string) {
  * `sep` must be 1 character in length
  * 
  * the respected delimiters are the following pairs:
- * "()", "[]", "{}"
+ * "()", "[]", "{}" and "<>" (only from a "<", as a ">" is also in "->")
  * 
  * the returned substrings are trimmed
  * 
@@ -138,6 +172,8 @@ export function splitCarefully(str: string, sep: string, nbCut?: number) {
 		if (-1 < f) {
 			if (f % 2) throw new SyntaxError(`No matching '${pairs[f-1]}' for closing '${pairs[f]}'`);
 			k+= delimitSubstring(str.substr(k), pairs[f], pairs[f+1])[1];
+		} else if ("<" === c) {
+			k+= delimitSubstring(str.substr(k), "<", ">")[1];
 		} else if (c === sep) {
 			r.push(str.substring(l, k).trim());
 			l = k+1;
@@ -272,6 +308,19 @@ export function resolveListOfTypes(types: (LuaType | undefined)[]): LuaType[] {
 	return r;
 }
 
+/**
+ * the type of the values past the end of a list from `resolveListOfTypes`:
+ * 'unknown' if the last one is (eg. an unknown function may return any
+ * number of values), 'nil' otherwise
+ * 
+ * @used `document/ > explore.ts > SelfExplore{} > constructor > this.handlers > LocalStatement`
+ * @used `document/ > explore.ts > SelfExplore{} > constructor > this.handlers > AssignmentStatement`
+ * @used `document/ > explore.ts > SelfExplore{} > constructor > this.handlers > AssignmentOperatorStatement`
+ */
+export function typeAfterList(types: LuaType[]): LuaType {
+	return 'unknown' === types[types.length-1] ? 'unknown' : 'nil';
+}
+
 /**
  * completely flattens a type into a list for the `resolveListOfTypes` above
  * eg. `a | [b, c]` becomes `[a|b, nil|c]`
@@ -355,6 +404,20 @@ export function uriToFsPath(uri: string) {
 		: path;
 }
 
+/**
+ * whether the text starts with a PICO-8 header
+ * (ie. `pico-8 cartridge` anywhere on the first line)
+ * 
+ * @used `documents.ts > Document{} > handleOnDidChangeContent()`, `handleOnIndex()`
+ */
+export function hasCartridgeHeader(text: string) {
+	const n = text.indexOf('\n');
+	return (n < 0 ? text : text.slice(0, n)).includes("pico-8 cartridge");
+}
+
+// the file versions (in the header) and the corresponding PICO-8 (not-quite-)semvers
+const HEADER_VERSIONS: Record<number, string> = JSON.parse('{"3":"0.0.1","4":"0.1.1","5":"0.1.5","7":"0.1.6","8":"0.1.10c","11":"0.1.11b","12":"0.1.11c","14":"0.1.11d","15":"0.1.11f","16":"0.1.11g","17":"0.1.12","18":"0.1.12c","19":"0.2.0","20":"0.2.0b","21":"0.2.0c","22":"0.2.0d","23":"0.2.0e","24":"0.2.0f","25":"0.2.0g","26":"0.2.0h","27":"0.2.0i","28":"0.2.1","29":"0.2.1b","30":"0.2.2","31":"0.2.2b","32":"0.2.2c","33":"0.2.3","34":"0.2.4"}');
+
 /**
  * tries to find a file version and returns the corresponding PICO-8 (not-quite-)semver.
  * 
@@ -362,15 +425,47 @@ export function uriToFsPath(uri: string) {
  * 
  * @thanks https://gist.github.com/PictElm/9e1930781b8c541f7199059ccc08cf89
  * 
- * @used `documents.ts > Document{} > handleOnDidChangeContent()`
+ * @used `documents.ts > Document{} > handleOnDidChangeContent()`, `handleOnIndex()`
  */
 export function providedVersion(header: string) {
 	const headerProvidedVersion = parseInt(/version (\d+)/gi.exec(header)?.[1] || "");
 	if (isNaN(headerProvidedVersion)) return;
 
-	const VERSION_MAP: Record<number, string> = JSON.parse('{"3":"0.0.1","4":"0.1.1","5":"0.1.5","7":"0.1.6","8":"0.1.10c","11":"0.1.11b","12":"0.1.11c","14":"0.1.11d","15":"0.1.11f","16":"0.1.11g","17":"0.1.12","18":"0.1.12c","19":"0.2.0","20":"0.2.0b","21":"0.2.0c","22":"0.2.0d","23":"0.2.0e","24":"0.2.0f","25":"0.2.0g","26":"0.2.0h","27":"0.2.0i","28":"0.2.1","29":"0.2.1b","30":"0.2.2","31":"0.2.2b","32":"0.2.2c","33":"0.2.3","34":"0.2.4"}');
+	return HEADER_VERSIONS[headerProvidedVersion];
+}
 
-	return VERSION_MAP[headerProvidedVersion];
+/**
+ * the file version a cartridge made with the given PICO-8 (not-quite-)semver
+ * would have in its header, ie. reverses `providedVersion` (for a version
+ * without a file version of its own, the one of the latest before it)
+ * 
+ * @used `documents.ts > Document{} > handleOnDidChangeContent()`
+ */
+export function headerFileVersion(version: string) {
+	let found: number | undefined;
+	for (const key in HEADER_VERSIONS)
+		if (compareVersions(HEADER_VERSIONS[key], version) <= 0) found = +key;
+	return found;
+}
+
+/**
+ * compares two PICO-8 (not-quite-)semvers, eg. `0.1.10c` comes before `0.2.0`
+ * 
+ * @returns negative if `a` comes before `b`, positive if after, 0 if the same
+ * 
+ * @used `documents.ts > Document{} > diagnoseApi()`
+ */
+export function compareVersions(a: string, b: string) {
+	const partsA = a.split('.');
+	const partsB = b.split('.');
+	for (let k = 0; k < partsA.length || k < partsB.length; k++) {
+		const [, numberA, letterA] = /^(\d*)(.*)$/.exec(partsA[k] ?? "")!;
+		const [, numberB, letterB] = /^(\d*)(.*)$/.exec(partsB[k] ?? "")!;
+		const difference = (parseInt(numberA) || 0) - (parseInt(numberB) || 0);
+		if (difference) return difference;
+		if (letterA !== letterB) return letterA < letterB ? -1 : 1;
+	}
+	return 0;
 }
 
 /**
@@ -378,7 +473,7 @@ export function providedVersion(header: string) {
  * 
  * @param pseudoSemver this whole thing was getting hellish to maintain anyway...
  * 
- * @used `documents.ts > Document{} > handleOnDidChangeContent()`
+ * @used `documents.ts > headerVersion()`
  */
  export function nearestParserVersion(pseudoSemver: string): string {
 	const [maj_s, min_s, meh_s] = pseudoSemver.split('.');
@@ -0,0 +1,135 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { Connection, DidChangeWatchedFilesParams, FileChangeType, SymbolInformation, WorkspaceFoldersChangeEvent, WorkspaceSymbolParams } from 'vscode-languageserver';
+
+import { DocumentsManager } from './documents';
+
+// files that may contain PICO-8 code (`.lua` for the includes)
+const INDEXED = /\.(p8|lua)$/i;
+
+// directories which are never worth walking into
+const IGNORED = /^(\.|node_modules$)/;
+
+/**
+ * keeps an index of the symbols of every PICO-8 file in the workspace
+ * folders, whether opened in the editor or not
+ *
+ * the index is built in the background when the folders are known, then
+ * kept up to date by the watched files events (see `client/src/extension.ts`)
+ */
+export class WorkspaceIndex extends Map<string, SymbolInformation[]> {
+
+	private folders: string[] = [];
+
+	constructor(private documents: DocumentsManager) {
+		super();
+	}
+
+	/**
+	 * listening on a connection will overwrite the following handlers on a connection:
+	 *
+	 * `onWorkspaceSymbol`
+	 *
+	 * the watched files and workspace folders events are to be forwarded
+	 * (`handleOnDidChangeWatchedFiles`, `handleOnDidChangeWorkspaceFolders`)
+	 */
+	listen(connection: Connection) {
+		connection.onWorkspaceSymbol(this.handleOnWorkspaceSymbol.bind(this));
+	}
+
+	/**
+	 * add folders to the index and walk them for files (in the background)
+	 */
+	async addFolders(uris: string[]) {
+		for (const uri of uris) {
+			if (this.folders.includes(uri)) continue;
+			this.folders.push(uri);
+
+			console.log(`Indexing workspace folder '${uri}'`);
+			for (const file of await this.walk(uri))
+				await this.update(file);
+			console.log(`Done indexing '${uri}'`);
+		}
+	}
+
+	removeFolders(uris: string[]) {
+		this.folders = this.folders.filter(it => !uris.includes(it));
+		for (const uri of this.keys())
+			if (!this.folders.some(it => uri.startsWith(it + '/')))
+				this.delete(uri);
+	}
+
+//#region handlers
+	async handleOnDidChangeWatchedFiles(change: DidChangeWatchedFilesParams) {
+		for (const { uri, type } of change.changes) {
+			if (!INDEXED.test(uri) || !this.folders.some(it => uri.startsWith(it + '/'))) continue;
+
+			if (FileChangeType.Deleted === type) this.delete(uri);
+			else await this.update(uri);
+		}
+	}
+
+	handleOnDidChangeWorkspaceFolders(event: WorkspaceFoldersChangeEvent) {
+		this.removeFolders(event.removed.map(it => it.uri));
+		return this.addFolders(event.added.map(it => it.uri));
+	}
+
+	private handleOnWorkspaceSymbol(workspaceSymbolParams: WorkspaceSymbolParams) {
+		const query = workspaceSymbolParams.query.toLowerCase();
+
+		const result: SymbolInformation[] = [];
+		for (const uri of new Set([...this.keys(), ...this.documents.keys()])) {
+			// the opened documents are more up to date than what is on disk
+			const symbols = this.documents.handleOnWorkspaceSymbol(uri) ?? this.get(uri) ?? [];
+			result.push(...symbols.filter(it => fuzzyMatch(query, it.name.toLowerCase())));
+		}
+		return result;
+	}
+//#endregion
+
+	/**
+	 * (re-)index a single file from its content on disk
+	 */
+	private async update(uri: string) {
+		try {
+			const content = (await fs.readFile(fileURLToPath(uri))).toString();
+			this.set(uri, await this.documents.index(uri, content));
+		} catch (err) {
+			console.log(`Could not index '${uri}': ${err}`);
+			this.delete(uri);
+		}
+	}
+
+	/**
+	 * @returns the uris of every indexable file found under the folder
+	 */
+	private async walk(folder: string): Promise<string[]> {
+		const found: string[] = [];
+		try {
+			const path = fileURLToPath(folder);
+			const entries = await fs.readdir(path, { withFileTypes: true });
+			for (const it of entries) {
+				const uri = pathToFileURL(join(path, it.name)).href;
+				if (it.isDirectory()) {
+					if (!IGNORED.test(it.name)) found.push(...await this.walk(uri));
+				} else if (it.isFile() && INDEXED.test(it.name)) found.push(uri);
+			}
+		} catch (err) {
+			console.log(`Could not walk '${folder}': ${err}`);
+		}
+		return found;
+	}
+
+}
+
+/**
+ * whether every characters of the `query` appear in `name` in order
+ * (eg. `plup` matches `player_update`)
+ */
+function fuzzyMatch(query: string, name: string) {
+	let k = 0;
+	for (const c of name)
+		if (c === query[k]) k++;
+	return query.length <= k;
+}